@@ -1,6 +1,15 @@
 import { AxiosInstance } from 'axios';
 import { Credentials } from './client';
-import { handleDatalessResponse, handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import {
+  DatePaths,
+  handleDatalessResponse,
+  handleDataResponse,
+  handleOptionalDataResponse,
+  isoStringifyDates,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+} from './utils';
 
 export enum Role {
   Administrator = 'administrator',
@@ -33,6 +42,8 @@ export type Account = {
   groupId: string;
 };
 
+const accountDates: DatePaths = ['created', 'verified'];
+
 export type AccountsListParams = {
   /** An exact-match filter on the list based on the account's `name` property. */
   name?: string;
@@ -71,19 +82,25 @@ export type AccountRegisterParams = Pick<Account, 'name' | 'email'> &
 export default (client: AxiosInstance) => ({
   /** Returns a list of accounts. Accounts are sorted by creation date, with the most recently created accounts appearing first. */
   list: (params?: AccountsListParams) =>
-    handleDataResponse<Account[]>(client.get('accounts', { params: snakeCase(isoStringifyDates(params)) })),
+    handleDataResponse<Account[]>(
+      client.get('accounts', { params: snakeCase(isoStringifyDates(params)) }),
+      accountDates,
+    ),
   /**
    * Retrieves the details of an existing account.
    * @param id The unique identifier for the account.
    */
-  retrieve: (id: string) => handleDataResponse<Account | undefined>(client.get(`accounts/${id}`)),
+  retrieve: (id: string) => handleOptionalDataResponse<Account>(client.get(`accounts/${id}`), accountDates),
   /**
    * Creates a new account that can be used to send envelopes and log in to the Annature dashboard to create, send, and manage envelopes.
    *
    * New accounts will automatically be sent a verification email from Annature with a prompt to set a password.
    */
-  create: (params: AccountCreateParams) =>
-    handleDataResponse<Account>(client.post('accounts', snakeCase(isoStringifyDates(params)))),
+  create: (params: AccountCreateParams, options?: RequestOptions) =>
+    handleDataResponse<Account>(
+      client.post('accounts', snakeCase(isoStringifyDates(params)), requestConfig(options)),
+      accountDates,
+    ),
   /**
    * Creates a new independent account and organisation that can be used to send envelopes and log in to the Annature dashboard.
    *
@@ -92,9 +109,10 @@ export default (client: AxiosInstance) => ({
    *
    * Accounts created using this endpoint will also return a pair of long-lived API keys so you can immediately start sending envelopes on behalf of the new account.
    */
-  register: (params: AccountRegisterParams) =>
+  register: (params: AccountRegisterParams, options?: RequestOptions) =>
     handleDataResponse<Account & { credentials: Credentials }>(
-      client.post('accounts/register', snakeCase(isoStringifyDates(params))),
+      client.post('accounts/register', snakeCase(isoStringifyDates(params)), requestConfig(options)),
+      accountDates,
     ),
   /**
    * Resends a new verification email to the account holder's email address. Any existing verification emails will be voided and will show a friendly error message if clicked,
@@ -103,7 +121,8 @@ export default (client: AxiosInstance) => ({
    * New verification emails can only be sent when an account's verified property is null.
    * @param id The unique identifier for the account.
    */
-  resendVerification: (id: string) => handleDatalessResponse(client.post(`accounts/${id}/verification`)),
+  resendVerification: (id: string, options?: RequestOptions) =>
+    handleDatalessResponse(client.post(`accounts/${id}/verification`, undefined, requestConfig(options))),
   /**
    * Deactivates an account preventing them from being able to send envelopes and log in to the Annature dashboard.
    *
@@ -0,0 +1,149 @@
+import { access, mkdir, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Annature } from './client';
+import { Envelope, EnvelopesListParams, EnvelopeStatus } from './envelopes';
+import zip, { ZipEntry } from './zip';
+
+export type ArchiveOptions = {
+  /** The directory the archives are written to. */
+  directory: string;
+  /** Whether each envelope is archived as a directory or a zip file. Defaults to `directory`. */
+  format?: 'directory' | 'zip';
+  /** Called after each envelope has been archived, skipped or has failed. */
+  onProgress?: (result: ArchiveEnvelopeResult) => void;
+};
+
+export type ArchiveEnvelopeResult = {
+  /** The unique identifier of the envelope. */
+  envelopeId: string;
+  /** The path of the envelope's directory or zip file. */
+  path: string;
+} & (
+  | {
+      /** Whether the envelope was archived during this run, or skipped as it had already been archived. */
+      status: 'archived' | 'skipped';
+    }
+  | {
+      status: 'failed';
+      /** The error thrown while archiving the envelope. */
+      error: Error;
+    }
+);
+
+export type ArchiveReport = {
+  /** The result of each envelope, in the order they were listed. */
+  results: ArchiveEnvelopeResult[];
+  /** The number of envelopes archived during this run. */
+  archived: number;
+  /** The number of envelopes that had already been archived. */
+  skipped: number;
+  /** The number of envelopes that failed to be archived. */
+  failed: number;
+};
+
+const exists = async (path: string) => {
+  try {
+    await access(path);
+
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Converts a document name into a file name that is safe on every platform. */
+const fileName = (name: string) => name.replace(/[^\w.\- ]/g, '_').replace(/(\.pdf)?$/i, '.pdf');
+
+const json = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2));
+
+/** Downloads everything archived for an envelope. */
+const entries = async (
+  annature: Pick<Annature, 'envelopes' | 'documents' | 'fields'>,
+  envelope: Envelope,
+): Promise<ZipEntry[]> => {
+  const documents = await annature.documents.list({ envelopeId: envelope.id });
+  const fields = await annature.fields.list({ envelopeId: envelope.id });
+  const files: ZipEntry[] = [
+    { name: 'envelope.json', data: json(envelope) },
+    { name: 'documents.json', data: json(documents) },
+    { name: 'fields.json', data: json(fields) },
+    { name: 'master.pdf', data: await annature.envelopes.downloadMaster(envelope) },
+  ];
+
+  if (envelope.status === EnvelopeStatus.Completed) {
+    files.push({ name: 'certificate.pdf', data: await annature.envelopes.downloadCertificate(envelope) });
+  }
+
+  for (const [i, document] of documents.entries()) {
+    files.push({
+      // Prefixed with the position of the document, as document names are not unique.
+      name: `documents/${i + 1} ${fileName(document.name)}`,
+      data: await annature.documents.downloadBuffer(document, { envelopeId: envelope.id }),
+    });
+  }
+
+  return files;
+};
+
+/**
+ * Archives every envelope matching the parameters, writing each envelope's master copy, certificate of completion, individual documents, field values and the
+ * envelope and its recipients as JSON to a directory or zip file named after the envelope's id.
+ *
+ * When no status parameter has been supplied, only completed envelopes are archived. Envelopes are written to a temporary path that is only renamed once complete, so
+ * an interrupted run can be resumed by archiving to the same directory again, which skips the envelopes that have already been archived.
+ * @param annature The client used to list and download the envelopes.
+ * @param params The parameters used to list the envelopes, for example `completedAfter`.
+ * @example
+ * const report = await archiveEnvelopes(annature, { completedAfter: new Date('2024-01-01') }, { directory: 'archive', format: 'zip' });
+ */
+export const archiveEnvelopes = async (
+  annature: Pick<Annature, 'envelopes' | 'documents' | 'fields'>,
+  params: EnvelopesListParams,
+  options: ArchiveOptions,
+): Promise<ArchiveReport> => {
+  const { directory, format = 'directory', onProgress } = options;
+  const results: ArchiveEnvelopeResult[] = [];
+
+  await mkdir(directory, { recursive: true });
+
+  for await (const envelope of annature.envelopes.listAll({ status: EnvelopeStatus.Completed, ...params })) {
+    const path = join(directory, format === 'zip' ? `${envelope.id}.zip` : envelope.id);
+    const partial = `${path}.partial`;
+    let result: ArchiveEnvelopeResult;
+
+    try {
+      if (await exists(path)) {
+        result = { envelopeId: envelope.id, path, status: 'skipped' };
+      } else {
+        const files = await entries(annature, envelope);
+
+        // Left behind when a previous run was interrupted.
+        await rm(partial, { recursive: true, force: true });
+
+        if (format === 'zip') {
+          await writeFile(partial, zip(files, envelope.completed));
+        } else {
+          for (const file of files) {
+            await mkdir(join(partial, file.name, '..'), { recursive: true });
+            await writeFile(join(partial, file.name), file.data);
+          }
+        }
+
+        await rename(partial, path);
+        result = { envelopeId: envelope.id, path, status: 'archived' };
+      }
+    } catch (error: any) {
+      result = { envelopeId: envelope.id, path, status: 'failed', error };
+    }
+
+    results.push(result);
+    onProgress?.(result);
+  }
+
+  return {
+    results,
+    archived: results.filter(v => v.status === 'archived').length,
+    skipped: results.filter(v => v.status === 'skipped').length,
+    failed: results.filter(v => v.status === 'failed').length,
+  };
+};
@@ -0,0 +1,245 @@
+import { Annature } from './client';
+import { Envelope, EnvelopeCreateParams } from './envelopes';
+import {
+  AttachmentField,
+  CheckboxField,
+  DateField,
+  DropdownField,
+  Field,
+  FieldCreateParams,
+  FieldType,
+  InitialsField,
+  InputField,
+  SignatureField,
+  WitnessField,
+} from './fields';
+import { FileInput } from './files';
+import { RecipientType } from './recipients';
+import { RequestOptions } from './utils';
+import { assertValid, validateEnvelopeCreateParams } from './validation';
+
+type DocumentParams = EnvelopeCreateParams['documents'][number];
+type RecipientParams = NonNullable<EnvelopeCreateParams['recipients']>[number];
+
+/** The placement of a field, either automatically using an anchor string or at fixed coordinates on a page. */
+export type FieldPlacement =
+  | {
+      /** The anchor string for the field. */
+      anchor: string;
+      /** The pixel-based amount of x-axis offset to be used on matched anchor text strings. */
+      xOffset?: number;
+      /** The pixel-based amount of y-axis offset to be used on matched anchor text strings. */
+      yOffset?: number;
+    }
+  | {
+      /** The page number in the envelope, assuming page numbers as if documents are merged together. */
+      page: number;
+      /** The absolute pixel-based x coordinate for the field. */
+      x: number;
+      /** The absolute pixel-based y coordinate for the field. */
+      y: number;
+    };
+
+/** The properties of a field of the given type, other than its type and placement. */
+export type BuilderFieldOptions<F extends Field> = Omit<
+  FieldCreateParams<F>,
+  'type' | 'page' | 'anchor' | 'xOffset' | 'yOffset' | 'xCoordinate' | 'yCoordinate'
+>;
+
+export type BuilderRecipient = Omit<RecipientParams, 'type' | 'fields' | 'order'> & {
+  /** The recipient's signing order. When not supplied, recipients are ordered in the sequence they were added. */
+  order?: number;
+};
+
+/**
+ * Composes the parameters for creating an envelope.
+ *
+ * Fields are added to the most recently added signer, and signers and viewers are given a signing order in the sequence they were added unless an `order` is
+ * supplied.
+ *
+ * @example
+ * const envelope = await new EnvelopeBuilder()
+ *   .name('Employment contract')
+ *   .accountId(accountId)
+ *   .addDocument({ path: 'contract.pdf' })
+ *   .addSigner({ name: 'Jane Citizen', email: 'jane@example.com' })
+ *   .signatureAt({ anchor: '{{signature}}' })
+ *   .dateAt({ page: 1, x: 100, y: 700 })
+ *   .send(annature);
+ */
+export class EnvelopeBuilder {
+  private readonly params: Omit<EnvelopeCreateParams, 'recipients'> & { recipients: RecipientParams[] } = {
+    name: '',
+    accountId: '',
+    documents: [],
+    recipients: [],
+  };
+
+  /** Sets the name of the envelope, displayed in the subject of emails sent to recipients and when viewing the envelope. */
+  name(name: string) {
+    this.params.name = name;
+
+    return this;
+  }
+
+  /** Sets the envelope message, displayed in the body of the emails sent to recipients and when viewing the envelope in Annature. */
+  message(message: string) {
+    this.params.message = message;
+
+    return this;
+  }
+
+  /** Sets the unique identifier of the account that is creating the envelope. */
+  accountId(accountId: string) {
+    this.params.accountId = accountId;
+
+    return this;
+  }
+
+  /** Sets the unique identifier of the group to be used for the envelope, overriding the sender's group. */
+  groupId(groupId: string) {
+    this.params.groupId = groupId;
+
+    return this;
+  }
+
+  /** Shares the envelope with other accounts that belong to the same group as the envelope. */
+  shared(shared = true) {
+    this.params.shared = shared;
+
+    return this;
+  }
+
+  /** Creates the envelope as a draft, which can be finalised in the Annature dashboard before being sent. Fields are not supported on drafts. */
+  asDraft(draft = true) {
+    this.params.draft = draft;
+
+    return this;
+  }
+
+  /** Merges key-value pairs into the envelope's metadata. */
+  metadata(metadata: NonNullable<EnvelopeCreateParams['metadata']>) {
+    this.params.metadata = { ...this.params.metadata, ...metadata };
+
+    return this;
+  }
+
+  /**
+   * Adds a PDF document to the envelope.
+   * @param base The PDF file.
+   */
+  addDocument(base: FileInput, document?: Omit<DocumentParams, 'base'>) {
+    this.params.documents.push({ ...document, base });
+
+    return this;
+  }
+
+  /** Adds a recipient that must sign the envelope. Fields added after the signer will be assigned to them. */
+  addSigner(recipient: BuilderRecipient) {
+    return this.addRecipient(RecipientType.Signer, recipient);
+  }
+
+  /** Adds a recipient that must view the envelope. */
+  addViewer(recipient: BuilderRecipient) {
+    return this.addRecipient(RecipientType.Viewer, recipient);
+  }
+
+  /** Adds a recipient that receives a copy of the envelope once it has been completed. */
+  addCarbonCopy(recipient: Omit<BuilderRecipient, 'order'>) {
+    return this.addRecipient(RecipientType.CarbonCopy, recipient);
+  }
+
+  /** Adds a signature field for the most recently added signer. */
+  signatureAt(placement: FieldPlacement, field?: BuilderFieldOptions<SignatureField>) {
+    return this.addField(FieldType.Signature, placement, field);
+  }
+
+  /** Adds an initials field for the most recently added signer. */
+  initialsAt(placement: FieldPlacement, field?: BuilderFieldOptions<InitialsField>) {
+    return this.addField(FieldType.Initials, placement, field);
+  }
+
+  /** Adds a witness field for the most recently added signer. */
+  witnessAt(placement: FieldPlacement, field?: BuilderFieldOptions<WitnessField>) {
+    return this.addField(FieldType.Witness, placement, field);
+  }
+
+  /** Adds a date field for the most recently added signer. */
+  dateAt(placement: FieldPlacement, field?: BuilderFieldOptions<DateField>) {
+    return this.addField(FieldType.Date, placement, field);
+  }
+
+  /** Adds an input field for the most recently added signer. */
+  inputAt(placement: FieldPlacement, field?: BuilderFieldOptions<InputField>) {
+    return this.addField(FieldType.Input, placement, field);
+  }
+
+  /** Adds a checkbox field for the most recently added signer. */
+  checkboxAt(placement: FieldPlacement, field?: BuilderFieldOptions<CheckboxField>) {
+    return this.addField(FieldType.Checkbox, placement, field);
+  }
+
+  /** Adds a dropdown field for the most recently added signer. */
+  dropdownAt(placement: FieldPlacement, field: BuilderFieldOptions<DropdownField>) {
+    return this.addField(FieldType.Dropdown, placement, field);
+  }
+
+  /** Adds an attachment field for the most recently added signer, allowing them to upload files during the signing flow. */
+  attachmentAt(placement: FieldPlacement, field?: BuilderFieldOptions<AttachmentField>) {
+    return this.addField(FieldType.Attachment, placement, field);
+  }
+
+  /** Returns the parameters for creating the envelope, throwing an `AnnatureValidationError` when they are not valid. */
+  build(): EnvelopeCreateParams {
+    const params = { ...this.params, recipients: this.params.recipients.map(v => ({ ...v })) };
+
+    assertValid(validateEnvelopeCreateParams(params));
+
+    return params;
+  }
+
+  /** Builds the parameters and creates the envelope. */
+  send(annature: Pick<Annature, 'envelopes'>, options?: RequestOptions): Promise<Envelope> {
+    return annature.envelopes.create(this.build(), options);
+  }
+
+  private addRecipient(type: RecipientType, recipient: BuilderRecipient) {
+    const ordered = type !== RecipientType.CarbonCopy;
+    const previous = this.params.recipients.filter(v => v.order !== undefined).map(v => v.order as number);
+
+    this.params.recipients.push({
+      ...recipient,
+      type,
+      order: ordered ? recipient.order ?? Math.max(0, ...previous) + 1 : undefined,
+    });
+
+    return this;
+  }
+
+  private addField<F extends Field>(type: F['type'], placement: FieldPlacement, field?: BuilderFieldOptions<F>) {
+    const index = this.params.recipients.length - 1;
+    const signer = this.params.recipients[index];
+
+    if (signer?.type !== RecipientType.Signer) {
+      assertValid([
+        {
+          path: signer ? `recipients[${index}].fields` : 'recipients',
+          message: 'Fields can only be added directly after adding a signer',
+        },
+      ]);
+    }
+
+    signer.fields = [
+      ...(signer.fields ?? []),
+      {
+        ...field,
+        type,
+        ...('anchor' in placement
+          ? placement
+          : { page: placement.page, xCoordinate: placement.x, yCoordinate: placement.y }),
+      } as FieldCreateParams,
+    ];
+
+    return this;
+  }
+}
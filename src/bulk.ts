@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { Envelope } from './envelopes';
+import { AnnatureError } from './errors';
+import { Template, TemplateUseParams } from './templates';
+import { RequestOptions } from './utils';
+
+export type BulkUseRowResult = {
+  /** The index of the row. */
+  index: number;
+  /** Whether the row was loaded from the checkpoint rather than sent during this run. */
+  resumed: boolean;
+} & (
+  | {
+      status: 'created';
+      /** The unique identifier of the envelope created for the row. */
+      envelopeId: string;
+    }
+  | {
+      status: 'failed';
+      /** The error thrown when using the template for the row. */
+      error: Error;
+    }
+);
+
+export type BulkUseReport = {
+  /** The result of each row that was attempted, ordered by index. Rows that were not attempted because the run stopped early are not included. */
+  results: BulkUseRowResult[];
+  /** The number of rows an envelope has been created for, including rows loaded from the checkpoint. */
+  created: number;
+  /** The number of rows that failed. */
+  failed: number;
+};
+
+export type BulkUseOptions<R> = {
+  /** Maps a row to the parameters for using the template. Rows are assumed to already be parameters when not supplied. */
+  map?: (row: R, index: number) => TemplateUseParams | Promise<TemplateUseParams>;
+  /** The maximum number of envelopes being created at once. Defaults to 5. */
+  concurrency?: number;
+  /** Whether to keep sending the remaining rows after a row fails. Defaults to true, when false no new rows are started after the first failure. */
+  continueOnError?: boolean;
+  /**
+   * Called after each row has been attempted and recorded in the checkpoint. Errors thrown by the callback are emitted as process warnings, so they neither stop the
+   * run nor change the result of the row.
+   */
+  onProgress?: (progress: { completed: number; total: number; result: BulkUseRowResult }) => void;
+  /**
+   * The path of a JSON file recording the result of each row. When the file already exists, rows that have already been created are skipped so that an interrupted
+   * run can be resumed without sending envelopes twice, while rows that failed are attempted again. Rows that failed without a response or with a server error may
+   * have been created, so they are attempted again with the same idempotency key, while rows rejected with a 4xx response are attempted with a new key.
+   *
+   * When the checkpoint cannot be written, for example as the disk is full, the error is thrown once every row has been attempted.
+   */
+  checkpoint?: string;
+};
+
+type Checkpoint = {
+  templateId: string;
+  /** Identifies the run, so that the idempotency keys of rows are the same when the run is resumed. */
+  runId: string;
+  rows: { [index: number]: { envelopeId?: string; error?: string; status?: number; attempt?: number } };
+};
+
+const DEFAULT_CONCURRENCY = 5;
+
+const loadCheckpoint = async (path: string, templateId: string): Promise<Checkpoint> => {
+  try {
+    const checkpoint: Checkpoint = JSON.parse(await readFile(path, 'utf8'));
+
+    if (checkpoint.templateId !== templateId) {
+      throw Error(`Checkpoint ${path} belongs to template ${checkpoint.templateId}, not ${templateId}`);
+    }
+
+    return checkpoint;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return { templateId, runId: randomUUID(), rows: {} };
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Uses a template once for each row, sending up to `concurrency` requests at a time and reporting the result of each row.
+ * @param use Uses the template to create an envelope.
+ */
+export default async <R>(
+  use: (template: string | Template, params: TemplateUseParams, options?: RequestOptions) => Promise<Envelope>,
+  template: string | Template,
+  rows: R[],
+  options: BulkUseOptions<R> = {},
+): Promise<BulkUseReport> => {
+  const { map = (row: R) => row as unknown as TemplateUseParams, continueOnError = true, onProgress } = options;
+  const templateId = typeof template === 'string' ? template : template.id;
+  const checkpoint = options.checkpoint
+    ? await loadCheckpoint(options.checkpoint, templateId)
+    : { templateId, runId: randomUUID(), rows: {} };
+  const results: BulkUseRowResult[] = [];
+  let saving = Promise.resolve();
+  let saveError: Error | undefined;
+  let stopped = false;
+  let next = 0;
+
+  const progress = (result: BulkUseRowResult) => {
+    try {
+      onProgress?.({ completed: results.length, total: rows.length, result });
+    } catch (error: any) {
+      process.emitWarning(error);
+    }
+  };
+
+  const record = (result: BulkUseRowResult, attempt: number) => {
+    results.push(result);
+
+    if (result.resumed || !options.checkpoint) {
+      progress(result);
+
+      return;
+    }
+
+    const path = options.checkpoint;
+    const status =
+      result.status === 'failed' && result.error instanceof AnnatureError ? result.error.status : undefined;
+
+    checkpoint.rows[result.index] =
+      result.status === 'created'
+        ? { envelopeId: result.envelopeId }
+        : { error: result.error.message, ...(status && { status }), ...(attempt && { attempt }) };
+
+    // Writes are chained so they never overlap, and go through a temporary file so a crash cannot leave the checkpoint half written. A failed write is thrown once
+    // the run has finished, while later writes are still attempted.
+    saving = saving
+      .then(async () => {
+        await writeFile(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+        await rename(`${path}.tmp`, path);
+      })
+      .catch(error => {
+        saveError ??= error;
+      });
+
+    progress(result);
+  };
+
+  const worker = async () => {
+    while (!stopped && next < rows.length) {
+      const index = next++;
+      const previous = checkpoint.rows[index];
+
+      if (previous?.envelopeId) {
+        record({ index, resumed: true, status: 'created', envelopeId: previous.envelopeId }, 0);
+        continue;
+      }
+
+      // A row rejected by the API was not created, so it is retried with a new idempotency key as reusing the key would return the cached rejection. Any other
+      // failure, such as a network error or server error, may have created the envelope, so the same key is reused to avoid sending it twice.
+      const rejected = previous?.status !== undefined && previous.status >= 400 && previous.status < 500;
+      const attempt = (previous?.attempt ?? 0) + (rejected ? 1 : 0);
+      let result: BulkUseRowResult;
+
+      try {
+        const envelope = await use(template, await map(rows[index], index), {
+          idempotencyKey: attempt ? `${checkpoint.runId}-${index}-${attempt}` : `${checkpoint.runId}-${index}`,
+        });
+
+        result = { index, resumed: false, status: 'created', envelopeId: envelope.id };
+      } catch (error: any) {
+        result = { index, resumed: false, status: 'failed', error };
+        stopped = !continueOnError;
+      }
+
+      record(result, attempt);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY) }, worker));
+  await saving;
+
+  if (saveError) {
+    throw saveError;
+  }
+
+  return {
+    results: results.sort((a, b) => a.index - b.index),
+    created: results.filter(v => v.status === 'created').length,
+    failed: results.filter(v => v.status === 'failed').length,
+  };
+};
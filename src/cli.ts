@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { Annature, Credentials } from './client';
+import { EnvelopesListParams, EnvelopeStatus } from './envelopes';
+import { AnnatureValidationError } from './errors';
+import { parseTemplateRecipients } from './import';
+import { collect } from './pagination';
+import { TemplateUseParams } from './templates';
+
+type Args = {
+  positionals: string[];
+  flags: { [flag: string]: string | true };
+};
+
+type Command = {
+  /** The arguments and flags of the command, shown in the help. */
+  usage: string;
+  description: string;
+  /** The properties shown as columns when the result is printed as a table. */
+  columns?: string[];
+  run: (annature: Annature, args: Args) => Promise<unknown>;
+};
+
+type Profile = Credentials & { baseURL?: string };
+
+/** Flags that do not take a value. */
+const BOOLEAN_FLAGS = ['json', 'all', 'help'];
+
+const CONFIG_PATH = join(homedir(), '.annature', 'config.json');
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): Args => {
+  const args: Args = { positionals: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(argv[i]);
+
+    if (!match) {
+      args.positionals.push(argv[i]);
+    } else if (match[2] !== undefined || BOOLEAN_FLAGS.includes(match[1])) {
+      args.flags[match[1]] = match[2] ?? true;
+    } else if (i + 1 < argv.length) {
+      args.flags[match[1]] = argv[++i];
+    } else {
+      throw new UsageError(`--${match[1]} requires a value`);
+    }
+  }
+
+  return args;
+};
+
+const flag = (args: Args, name: string) => {
+  const value = args.flags[name];
+
+  return typeof value === 'string' ? value : undefined;
+};
+
+const requiredFlag = (args: Args, name: string) => {
+  const value = flag(args, name);
+
+  if (value === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+
+  return value;
+};
+
+const dateFlag = (args: Args, name: string) => {
+  const value = flag(args, name);
+  const date = value === undefined ? undefined : new Date(value);
+
+  if (date && isNaN(date.getTime())) {
+    throw new UsageError(`--${name} must be a date, for example 2024-01-31 or 2024-01-31T09:00:00+10:00`);
+  }
+
+  return date;
+};
+
+const integerFlag = (args: Args, name: string, min: number, max: number) => {
+  const value = flag(args, name);
+  const integer = value === undefined ? undefined : Number(value);
+
+  if (integer !== undefined && !(Number.isInteger(integer) && integer >= min && integer <= max)) {
+    throw new UsageError(`--${name} must be a whole number between ${min} and ${max}`);
+  }
+
+  return integer;
+};
+
+const id = (args: Args) => {
+  const value = args.positionals[2];
+
+  if (!value) {
+    throw new UsageError('An id is required');
+  }
+
+  return value;
+};
+
+/** Credentials are read from `ANNATURE_ID` and `ANNATURE_KEY`, falling back to a profile of the config file. */
+const loadProfile = async (args: Args): Promise<Profile> => {
+  const { ANNATURE_ID, ANNATURE_KEY, ANNATURE_BASE_URL, ANNATURE_CONFIG, ANNATURE_PROFILE } = process.env;
+  const name = flag(args, 'profile') ?? ANNATURE_PROFILE;
+
+  if (ANNATURE_ID && ANNATURE_KEY && !name) {
+    return { id: ANNATURE_ID, key: ANNATURE_KEY, baseURL: ANNATURE_BASE_URL };
+  }
+
+  const path = ANNATURE_CONFIG ?? CONFIG_PATH;
+  let config: { profiles?: { [name: string]: Profile } };
+
+  try {
+    config = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error: any) {
+    throw new UsageError(
+      error?.code === 'ENOENT'
+        ? `No credentials found, set ANNATURE_ID and ANNATURE_KEY or add a profile to ${path}`
+        : `Unable to read ${path}: ${error.message}`,
+    );
+  }
+
+  const profile = config.profiles?.[name ?? 'default'];
+
+  if (!profile?.id || !profile?.key) {
+    throw new UsageError(`Profile ${name ?? 'default'} in ${path} must contain an id and key`);
+  }
+
+  return profile;
+};
+
+const envelopesListParams = (args: Args): EnvelopesListParams => {
+  const status = flag(args, 'status');
+
+  if (status !== undefined && !(Object.values(EnvelopeStatus) as string[]).includes(status)) {
+    throw new UsageError(`--status must be one of ${Object.values(EnvelopeStatus).join(', ')}`);
+  }
+
+  return {
+    name: flag(args, 'name'),
+    status: status as EnvelopeStatus | undefined,
+    recipient: flag(args, 'recipient'),
+    createdBefore: dateFlag(args, 'created-before'),
+    createdAfter: dateFlag(args, 'created-after'),
+    completedBefore: dateFlag(args, 'completed-before'),
+    completedAfter: dateFlag(args, 'completed-after'),
+  };
+};
+
+const ENVELOPE_COLUMNS = ['id', 'name', 'status', 'created', 'completed'];
+const RECIPIENT_COLUMNS = ['id', 'name', 'email', 'type', 'status'];
+const ACCOUNT_COLUMNS = ['id', 'name', 'email', 'role', 'groupId'];
+const GROUP_COLUMNS = ['id', 'name', 'business', 'email', 'created'];
+const ENDPOINT_COLUMNS = ['id', 'url', 'active', 'created'];
+const TEMPLATE_COLUMNS = ['id', 'name', 'envelopeName', 'created'];
+
+const commands: { [command: string]: Command } = {
+  'envelopes list': {
+    usage:
+      '[--status <status>] [--name <name>] [--recipient <name or email>] [--created-before <date>] [--created-after <date>] [--completed-before <date>] [--completed-after <date>] [--all]',
+    description: 'Lists envelopes. Supply --all to list every envelope rather than the most recent 1000.',
+    columns: ENVELOPE_COLUMNS,
+    run: (annature, args) =>
+      args.flags.all
+        ? collect(annature.envelopes.listAll(envelopesListParams(args)))
+        : annature.envelopes.list(envelopesListParams(args)),
+  },
+  'envelopes retrieve': {
+    usage: '<id>',
+    description: 'Retrieves an envelope.',
+    columns: ENVELOPE_COLUMNS,
+    run: (annature, args) => annature.envelopes.retrieve(id(args)),
+  },
+  'envelopes send': {
+    usage: '<id>',
+    description: 'Sends a draft envelope.',
+    columns: ENVELOPE_COLUMNS,
+    run: (annature, args) => annature.envelopes.send(id(args)),
+  },
+  'envelopes void': {
+    usage: '<id>',
+    description: 'Voids an envelope.',
+    columns: ENVELOPE_COLUMNS,
+    run: (annature, args) => annature.envelopes.void(id(args)),
+  },
+  'envelopes delete': {
+    usage: '<id>',
+    description: 'Deletes a draft envelope.',
+    run: (annature, args) => annature.envelopes.delete(id(args)),
+  },
+  'recipients retrieve': {
+    usage: '<id>',
+    description: 'Retrieves a recipient.',
+    columns: RECIPIENT_COLUMNS,
+    run: (annature, args) => annature.recipients.retrieve(id(args)),
+  },
+  'recipients resend-email': {
+    usage: '<id>',
+    description: 'Resends the signing email to a recipient.',
+    columns: RECIPIENT_COLUMNS,
+    run: (annature, args) => annature.recipients.resendEmail(id(args)),
+  },
+  'recipients resend-sms': {
+    usage: '<id>',
+    description: 'Resends the signing SMS to a recipient.',
+    columns: RECIPIENT_COLUMNS,
+    run: (annature, args) => annature.recipients.resendSms(id(args)),
+  },
+  'recipients token': {
+    usage: '<id> [--token-duration <days>]',
+    description: 'Creates an embedded signing endpoint for a recipient.',
+    run: (annature, args) =>
+      annature.recipients.retrieveToken(id(args), { tokenDuration: integerFlag(args, 'token-duration', 1, 30) }),
+  },
+  'accounts list': {
+    usage: '[--name <name>] [--email <email>] [--group-id <id>]',
+    description: 'Lists accounts.',
+    columns: ACCOUNT_COLUMNS,
+    run: (annature, args) =>
+      annature.accounts.list({ name: flag(args, 'name'), email: flag(args, 'email'), groupId: flag(args, 'group-id') }),
+  },
+  'accounts retrieve': {
+    usage: '<id>',
+    description: 'Retrieves an account.',
+    columns: ACCOUNT_COLUMNS,
+    run: (annature, args) => annature.accounts.retrieve(id(args)),
+  },
+  'accounts create': {
+    usage: '--name <name> --email <email> [--number <number>] [--timezone <timezone>] [--group-id <id>]',
+    description: 'Creates an account within the organisation.',
+    columns: ACCOUNT_COLUMNS,
+    run: (annature, args) =>
+      annature.accounts.create({
+        name: requiredFlag(args, 'name'),
+        email: requiredFlag(args, 'email'),
+        number: flag(args, 'number'),
+        timezone: flag(args, 'timezone'),
+        groupId: flag(args, 'group-id'),
+      }),
+  },
+  'accounts deactivate': {
+    usage: '<id>',
+    description: 'Deactivates an account.',
+    run: (annature, args) => annature.accounts.deactivate(id(args)),
+  },
+  'accounts restore': {
+    usage: '<id>',
+    description: 'Restores a deactivated account.',
+    run: (annature, args) => annature.accounts.restore(id(args)),
+  },
+  'groups list': {
+    usage: '[--name <name>] [--business <business>] [--email <email>]',
+    description: 'Lists the most recent 1000 groups.',
+    columns: GROUP_COLUMNS,
+    run: (annature, args) =>
+      annature.groups.list({ name: flag(args, 'name'), business: flag(args, 'business'), email: flag(args, 'email') }),
+  },
+  'groups retrieve': {
+    usage: '<id>',
+    description: 'Retrieves a group.',
+    columns: GROUP_COLUMNS,
+    run: (annature, args) => annature.groups.retrieve(id(args)),
+  },
+  'groups create': {
+    usage:
+      '--name <name> [--business <business>] [--email <email>] [--number <number>] [--website <url>] [--colour <hex>] [--logo <path>]',
+    description: 'Creates a group.',
+    columns: GROUP_COLUMNS,
+    run: (annature, args) => {
+      const logo = flag(args, 'logo');
+
+      return annature.groups.create({
+        name: requiredFlag(args, 'name'),
+        business: flag(args, 'business'),
+        email: flag(args, 'email'),
+        number: flag(args, 'number'),
+        website: flag(args, 'website'),
+        colour: flag(args, 'colour'),
+        logo: logo === undefined ? undefined : { path: logo },
+      });
+    },
+  },
+  'groups delete': {
+    usage: '<id>',
+    description: 'Deletes a group.',
+    run: (annature, args) => annature.groups.restore(id(args)),
+  },
+  'endpoints list': {
+    usage: '',
+    description: 'Lists webhook endpoints.',
+    columns: ENDPOINT_COLUMNS,
+    run: annature => annature.endpoints.list(),
+  },
+  'endpoints retrieve': {
+    usage: '<id>',
+    description: 'Retrieves a webhook endpoint.',
+    columns: ENDPOINT_COLUMNS,
+    run: (annature, args) => annature.endpoints.retrieve(id(args)),
+  },
+  'endpoints create': {
+    usage: '--url <url>',
+    description: 'Creates a webhook endpoint.',
+    columns: [...ENDPOINT_COLUMNS, 'signature'],
+    run: (annature, args) => annature.endpoints.create({ url: requiredFlag(args, 'url') }),
+  },
+  'endpoints update': {
+    usage: '<id> --active <true|false>',
+    description: 'Activates or deactivates a webhook endpoint.',
+    columns: ENDPOINT_COLUMNS,
+    run: (annature, args) => {
+      const active = requiredFlag(args, 'active');
+
+      if (active !== 'true' && active !== 'false') {
+        throw new UsageError('--active must be true or false');
+      }
+
+      return annature.endpoints.update(id(args), { active: active === 'true' });
+    },
+  },
+  'endpoints delete': {
+    usage: '<id>',
+    description: 'Deletes a webhook endpoint.',
+    columns: ENDPOINT_COLUMNS,
+    run: (annature, args) => annature.endpoints.delete(id(args)),
+  },
+  'templates list': {
+    usage: '[--name <name>] [--all]',
+    description: 'Lists templates. Supply --all to list every template rather than the most recent 250.',
+    columns: TEMPLATE_COLUMNS,
+    run: (annature, args) =>
+      args.flags.all
+        ? collect(annature.templates.listAll({ name: flag(args, 'name') }))
+        : annature.templates.list({ name: flag(args, 'name') }),
+  },
+  'templates use': {
+    usage:
+      '<id> [--params <json file>] [--account-id <id>] [--name <name>] [--recipients <csv or json file>] [--draft <true|false>]',
+    description:
+      'Creates an envelope from a template. Parameters are read from a JSON file of TemplateUseParams, and can be overridden by the other flags.',
+    columns: ENVELOPE_COLUMNS,
+    run: async (annature, args) => {
+      const paramsPath = flag(args, 'params');
+      const recipientsPath = flag(args, 'recipients');
+      const draft = flag(args, 'draft');
+      const params: TemplateUseParams = paramsPath
+        ? JSON.parse(await readFile(paramsPath, 'utf8'))
+        : { accountId: '', recipients: [] };
+
+      if (recipientsPath) {
+        const { recipients, issues } = await parseTemplateRecipients({ path: recipientsPath });
+
+        if (issues.length) {
+          throw new AnnatureValidationError(`Invalid recipients in ${recipientsPath}`, { issues });
+        }
+
+        params.recipients = recipients;
+      }
+
+      return annature.templates.use(id(args), {
+        ...params,
+        accountId: flag(args, 'account-id') ?? params.accountId,
+        name: flag(args, 'name') ?? params.name,
+        draft: draft === undefined ? params.draft : draft === 'true',
+      });
+    },
+  },
+};
+
+const HELP = `Usage: annature <resource> <action> [arguments] [--json] [--profile <name>]
+
+Credentials are read from the ANNATURE_ID and ANNATURE_KEY environment variables, or from a profile of ~/.annature/config.json:
+
+  { "profiles": { "default": { "id": "...", "key": "..." } } }
+
+Profiles other than default are selected with --profile or ANNATURE_PROFILE, and the config file can be moved with ANNATURE_CONFIG.
+
+Results are printed as a table, supply --json to print them as JSON instead. Dates are accepted in ISO 8601 format.
+
+Commands:
+${Object.entries(commands)
+  .map(([name, command]) => `  ${name} ${command.usage}\n      ${command.description}`)
+  .join('\n')}
+`;
+
+const format = (value: unknown) => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** Formats rows as a table with a column for each property. */
+const table = (rows: { [key: string]: unknown }[], columns: string[]) => {
+  const cells = [columns, ...rows.map(row => columns.map(column => format(row[column])))];
+  const widths = columns.map((_, i) => Math.max(...cells.map(v => v[i].length)));
+
+  return cells
+    .map(row =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+};
+
+const print = (result: unknown, command: Command, json: boolean) => {
+  if (result === undefined) {
+    return;
+  }
+
+  if (json || !command.columns || typeof result !== 'object' || result === null) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (Array.isArray(result)) {
+    console.log(table(result, command.columns));
+  } else {
+    const entries = Object.entries(result as object);
+
+    console.log(
+      table(
+        entries.map(([key, value]) => ({ key, value })),
+        ['key', 'value'],
+      ),
+    );
+  }
+};
+
+const main = async (argv: string[]) => {
+  const args = parseArgs(argv);
+  const command = commands[args.positionals.slice(0, 2).join(' ')];
+
+  if (!command || args.flags.help) {
+    console.log(HELP);
+    process.exitCode = command || args.flags.help ? 0 : 1;
+
+    return;
+  }
+
+  const { baseURL, ...credentials } = await loadProfile(args);
+  const annature = new Annature(credentials, { baseURL, userAgent: 'cli' });
+  const result = await command.run(annature, args);
+
+  if (result === undefined && args.positionals[1] === 'retrieve') {
+    throw new UsageError(`${args.positionals[0].replace(/s$/, '')} ${args.positionals[2]} does not exist`);
+  }
+
+  print(result, command, !!args.flags.json);
+};
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`Error: ${error.message}`);
+
+  if (error instanceof AnnatureValidationError) {
+    error.issues.forEach(v => console.error(`  ${v.path}: ${v.message}`));
+  }
+
+  process.exitCode = 1;
+});
@@ -1,21 +1,67 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
+import { Agent } from 'http';
+import { Agent as HttpsAgent } from 'https';
 import accounts from './accounts';
 import documents from './documents';
 import endpoints from './endpoints';
 import envelopes from './envelopes';
+import events, {
+  AnnatureEventErrorListener,
+  AnnatureEventListener,
+  AnnatureEventName,
+  AnnatureWatchParams,
+} from './events';
 import fields from './fields';
 import groups from './groups';
+import hooks, { ErrorHook, RequestHook, ResponseHook } from './hooks';
 import organisations from './organisations';
 import recipients from './recipients';
+import retry, { defaultRetryPolicy, RetryPolicy } from './retry';
 import templates from './templates';
+import webhooks from './webhooks';
 
 export type Credentials = {
   id: string;
   key: string;
 };
 
+export type AnnatureOptions = {
+  /** The base URL of the API, for example to point the client at a mock server. Defaults to `https://api.annature.com.au/v1/`. */
+  baseURL?: string;
+  /** The number of milliseconds before a request times out. Defaults to 0, which disables the timeout. */
+  timeout?: number;
+  /**
+   * The agent used to make requests, for example to enable keep-alive connection reuse or to route requests through a proxy.
+   *
+   * A single agent is only used for requests of its protocol, so an `https.Agent` is used for HTTPS requests and any other agent for HTTP requests. Supply an
+   * agent for each protocol to set both, for example when `baseURL` points at a mock server over HTTP.
+   *
+   * When an agent is supplied, proxy environment variables such as `HTTPS_PROXY` are ignored.
+   */
+  agent?: Agent | { http?: Agent; https?: HttpsAgent };
+  /** A suffix appended to the `User-Agent` header, identifying your application in Annature's request logs. */
+  userAgent?: string;
+  /** Additional headers sent with every request. These cannot override the credential headers. */
+  headers?: { [key: string]: string };
+  /**
+   * The policy used to retry requests that failed due to network failures, rate limiting or server errors. Supply `false` to disable retries.
+   *
+   * Requests that create resources or send correspondence, such as `envelopes.create` and `templates.use`, are only retried when an idempotency key is supplied.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /** The axios adapter used to send requests, for example the `adapter` of a `MockAnnature` to test against an in-memory fake of the API. */
+  adapter?: AxiosAdapter;
+};
+
+const DEFAULT_BASE_URL = 'https://api.annature.com.au/v1/';
+
+const USER_AGENT = 'annature-node';
+
 export class Annature {
   private readonly client: AxiosInstance;
+  private readonly downloader: AxiosInstance;
+  private readonly hooks: ReturnType<typeof hooks>;
+  private readonly events: ReturnType<typeof events>;
   readonly accounts: ReturnType<typeof accounts>;
   readonly documents: ReturnType<typeof documents>;
   readonly endpoints: ReturnType<typeof endpoints>;
@@ -25,26 +71,133 @@ export class Annature {
   readonly recipients: ReturnType<typeof recipients>;
   readonly organisations: ReturnType<typeof organisations>;
   readonly templates: ReturnType<typeof templates>;
+  readonly webhooks: ReturnType<typeof webhooks>;
+
+  constructor(credentials: Credentials, options: AnnatureOptions = {}) {
+    const agents =
+      options.agent instanceof HttpsAgent
+        ? { https: options.agent }
+        : options.agent instanceof Agent
+        ? { http: options.agent }
+        : options.agent;
+    const connection = {
+      timeout: options.timeout ?? 0,
+      ...(agents && { httpAgent: agents.http, httpsAgent: agents.https, proxy: false as const }),
+      ...(options.adapter && { adapter: options.adapter }),
+    };
+    const userAgent = options.userAgent ? `${USER_AGENT} ${options.userAgent}` : USER_AGENT;
 
-  constructor(credentials: Credentials) {
     this.client = axios.create({
-      baseURL: 'https://api.annature.com.au/v1/',
+      ...connection,
+      baseURL: options.baseURL ?? DEFAULT_BASE_URL,
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
+        ...options.headers,
+        'User-Agent': userAgent,
         'X-Annature-Id': credentials.id,
         'X-Annature-Key': credentials.key,
       },
     });
 
+    // Temporary endpoints for downloading files are hosted outside of the API, so are requested without credentials.
+    this.downloader = axios.create({ ...connection, headers: { 'User-Agent': userAgent } });
+
+    if (options.retry !== false) {
+      for (const instance of [this.client, this.downloader]) {
+        instance.defaults.adapter = retry(instance.defaults.adapter!, { ...defaultRetryPolicy, ...options.retry });
+      }
+    }
+
+    this.hooks = hooks(this.client);
     this.accounts = accounts(this.client);
-    this.documents = documents(this.client);
-    this.endpoints = endpoints(this.client);
-    this.envelopes = envelopes(this.client);
+    this.documents = documents(this.client, this.downloader);
+    this.envelopes = envelopes(this.client, this.downloader);
     this.fields = fields(this.client);
     this.groups = groups(this.client);
     this.recipients = recipients(this.client);
     this.organisations = organisations(this.client);
     this.templates = templates(this.client);
+    this.events = events(this.envelopes.retrieve);
+    this.webhooks = webhooks(this.events.webhook);
+    this.endpoints = endpoints(this.client, this.webhooks);
+  }
+
+  /**
+   * Registers a hook that is called before each request is sent, for example to add tracing headers or to log the request. Use `redact` to remove credentials and
+   * documents from the request before logging it.
+   * @returns A function that unregisters the hook.
+   */
+  onRequest(hook: RequestHook) {
+    return this.hooks.onRequest(hook);
+  }
+
+  /**
+   * Registers a hook that is called after each successful response is received.
+   * @returns A function that unregisters the hook.
+   */
+  onResponse(hook: ResponseHook) {
+    return this.hooks.onResponse(hook);
+  }
+
+  /**
+   * Registers a hook that is called with the `AnnatureError` of each failed request, once all retries have been exhausted.
+   * @returns A function that unregisters the hook.
+   */
+  onError(hook: ErrorHook) {
+    return this.hooks.onError(hook);
+  }
+
+  /**
+   * Registers a listener that is called each time an envelope or recipient changes status, whether the change was received by a webhook verified with
+   * `webhooks.constructEvent`, by a `createWebhookHandler` supplied with this client, or detected by polling an envelope with `watch`.
+   *
+   * A change matching the latest change emitted for the same envelope or recipient is not emitted again, so a change received from both sources is only emitted once,
+   * while a recipient that fails again after being resent is. Listeners are called synchronously, and an error thrown by one is passed to `onEventError` rather
+   * than failing the verification of the webhook.
+   * @param event The change to listen for, for example `envelope.completed` or `recipient.failed`.
+   */
+  on<E extends AnnatureEventName>(event: E, listener: AnnatureEventListener<E>) {
+    this.events.emitter.on(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Registers a listener that is called the next time an envelope or recipient changes status.
+   * @param event The change to listen for, for example `envelope.completed` or `recipient.failed`.
+   */
+  once<E extends AnnatureEventName>(event: E, listener: AnnatureEventListener<E>) {
+    this.events.emitter.once(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Unregisters a listener registered with `on` or `once`.
+   * @param event The change the listener was registered for.
+   */
+  off<E extends AnnatureEventName>(event: E, listener: AnnatureEventListener<E>) {
+    this.events.emitter.off(event, listener);
+
+    return this;
+  }
+
+  /**
+   * Registers a listener that is called with the errors thrown by listeners registered with `on` or `once`. When none is registered, the errors are emitted as
+   * process warnings.
+   * @returns A function that unregisters the listener.
+   */
+  onEventError(listener: AnnatureEventErrorListener) {
+    return this.events.onError(listener);
+  }
+
+  /**
+   * Retrieves an envelope repeatedly until it has been completed, voided or declined, emitting each change in status of the envelope and its recipients to the
+   * listeners registered with `on`. Resolves to the envelope.
+   * @param id The unique identifier for the envelope.
+   */
+  watch(id: string, params?: AnnatureWatchParams) {
+    return this.events.watch(id, params);
   }
 }
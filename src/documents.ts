@@ -1,5 +1,14 @@
 import { AxiosInstance } from 'axios';
-import { handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { Readable } from 'stream';
+import { AnnatureNotFoundError } from './errors';
+import {
+  DatePaths,
+  handleDataResponse,
+  handleDownload,
+  handleOptionalDataResponse,
+  isoStringifyDates,
+  snakeCase,
+} from './utils';
 
 export type Document = {
   /**
@@ -28,6 +37,8 @@ export type Document = {
   created: Date;
 };
 
+export const documentDates: DatePaths = ['created'];
+
 export type DocumentsListParams = {
   /** The unique identifier of the envelope that the document belongs to. */
   envelopeId: string;
@@ -37,17 +48,61 @@ export type DocumentsListParams = {
 
 export type DocumentRetrieveParams = DocumentsListParams;
 
-export default (client: AxiosInstance) => ({
-  /** Returns a list of documents created for an envelope. */
-  list: (params: DocumentsListParams) =>
-    handleDataResponse<Document[]>(client.get('documents', { params: snakeCase(isoStringifyDates(params)) })),
-  /**
-   * Retrieves a single document created for an envelope using the id property that was supplied in the create an envelope endpoint.
-   *
-   * This endpoint can be used to download the un-merged copy of a single document.
-   */
-  retrieve: (id: string, params: DocumentRetrieveParams) =>
-    handleDataResponse<Document | undefined>(
+export type DocumentDownloadParams = DocumentRetrieveParams & {
+  /** The copy of the document to download, either the `original` or the signed `master` copy. Defaults to `master`. */
+  copy?: 'original' | 'master';
+};
+
+export default (client: AxiosInstance, downloader: AxiosInstance) => {
+  const retrieve = (id: string, params: DocumentRetrieveParams) =>
+    handleOptionalDataResponse<Document>(
       client.get(`documents/${id}`, { params: snakeCase(isoStringifyDates(params)) }),
-    ),
-});
+      documentDates,
+    );
+
+  const download = (document: string | Document, params: DocumentDownloadParams, stream: boolean) => {
+    const id = typeof document === 'string' ? document : document.id;
+    const { copy = 'master', ...retrieveParams } = params;
+
+    return handleDownload(downloader, stream, typeof document === 'string' ? undefined : document[copy], async () => {
+      const refreshed = await retrieve(id, retrieveParams);
+
+      if (!refreshed) {
+        throw new AnnatureNotFoundError(`Document ${id} does not exist`);
+      }
+
+      return refreshed[copy];
+    });
+  };
+
+  return {
+    /** Returns a list of documents created for an envelope. */
+    list: (params: DocumentsListParams) =>
+      handleDataResponse<Document[]>(
+        client.get('documents', { params: snakeCase(isoStringifyDates(params)) }),
+        documentDates,
+      ),
+    /**
+     * Retrieves a single document created for an envelope using the id property that was supplied in the create an envelope endpoint.
+     *
+     * This endpoint can be used to download the un-merged copy of a single document.
+     */
+    retrieve,
+    /**
+     * Downloads a single document as a stream, so that large files can be piped to disk or storage without being buffered into memory.
+     *
+     * When a document is supplied its endpoint is used, and the document is retrieved again only if the endpoint has expired.
+     * @param document The document, or the user-supplied identifier for the document.
+     */
+    download: (document: string | Document, params: DocumentDownloadParams) =>
+      download(document, params, true) as Promise<Readable>,
+    /**
+     * Downloads a single document into a Buffer.
+     *
+     * When a document is supplied its endpoint is used, and the document is retrieved again only if the endpoint has expired.
+     * @param document The document, or the user-supplied identifier for the document.
+     */
+    downloadBuffer: (document: string | Document, params: DocumentDownloadParams) =>
+      download(document, params, false) as Promise<Buffer>,
+  };
+};
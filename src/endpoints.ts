@@ -1,5 +1,16 @@
 import { AxiosInstance } from 'axios';
-import { handleDataResponse, snakeCase } from './utils';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  DatePaths,
+  handleDataResponse,
+  handleOptionalDataResponse,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+  throwIfAborted,
+} from './utils';
+import { AnnatureError } from './errors';
+import webhooks from './webhooks';
 
 export type Endpoint = {
   /** The unique identifier for the webhook endpoint. */
@@ -14,6 +25,8 @@ export type Endpoint = {
   created: Date;
 };
 
+const endpointDates: DatePaths = ['created'];
+
 export type EndpointCreateParams = {
   /** The HTTPS URL for the webhook endpoint. */
   url: string;
@@ -24,33 +37,126 @@ export type EndpointUpdateParams = {
   active: boolean;
 };
 
-export default (client: AxiosInstance) => ({
-  /** Returns a list of webhook endpoints. Endpoints are sorted by creation date, with the most recently created endpoints appearing first. */
-  list: () => handleDataResponse<Endpoint[]>(client.get('endpoints')),
-  /**
-   * Retrieves the details of an existing webhook endpoint.
-   * @param id The unique identifier for the webhook endpoint.
-   */
-  retrieve: (id: string) => handleDataResponse<Endpoint | undefined>(client.get(`endpoints/${id}`)),
-  /**
-   * Creates a new webhook endpoint with an HTTPS URL.
-   *
-   * The webhook endpoint signature is returned on creation, which can be used to verify webhooks.
-   */
-  create: (params: EndpointCreateParams) => handleDataResponse<Endpoint>(client.post('endpoints', snakeCase(params))),
-  /**
-   * Updates the webhook endpoint by setting the values of the supplied parameters.
-   *
-   * Currently only the active property is supported, meaning this endpoint can be used to temporarily deactivate and reactivate a webhook endpoint.
-   *
-   * The url property cannot be changed once the webhook endpoint has been created, you will need to create a new endpoint if this is required.
-   * @param id The unique identifier for the webhook endpoint.
-   */
-  update: (id: string, params: EndpointUpdateParams) =>
-    handleDataResponse<Endpoint>(client.put(`endpoints/${id}`, snakeCase(params))),
+export type EndpointRotateParams = RequestOptions & {
   /**
-   * Permanently deletes a webhook endpoint.
-   * @param id The unique identifier for the webhook endpoint.
+   * The number of milliseconds both the old and new endpoints are trusted, giving deliveries already signed by the old endpoint time to arrive. Defaults to 300000,
+   * the default tolerance of `webhooks.constructEvent`.
    */
-  delete: (id: string) => handleDataResponse<Endpoint>(client.delete(`endpoints/${id}`)),
-});
+  overlap?: number;
+  /** Called once the new endpoint has been created, before the overlap, for example to share its signature with other processes verifying deliveries. */
+  onCreate?: (endpoint: Endpoint) => void | Promise<void>;
+  /** A signal that abandons the rotation during the overlap, leaving the old endpoints in place. No endpoint is created when the signal has already been aborted. */
+  signal?: AbortSignal;
+};
+
+const DEFAULT_ROTATION_OVERLAP = 300000;
+
+export default (client: AxiosInstance, signatures: ReturnType<typeof webhooks>) => {
+  const list = () => handleDataResponse<Endpoint[]>(client.get('endpoints'), endpointDates);
+
+  const create = (params: EndpointCreateParams, options?: RequestOptions) =>
+    handleDataResponse<Endpoint>(client.post('endpoints', snakeCase(params), requestConfig(options)), endpointDates);
+
+  const update = (id: string, params: EndpointUpdateParams) =>
+    handleDataResponse<Endpoint>(client.put(`endpoints/${id}`, snakeCase(params)), endpointDates);
+
+  const remove = (id: string) => handleDataResponse<Endpoint>(client.delete(`endpoints/${id}`), endpointDates);
+
+  return {
+    /** Returns a list of webhook endpoints. Endpoints are sorted by creation date, with the most recently created endpoints appearing first. */
+    list,
+    /**
+     * Retrieves the details of an existing webhook endpoint.
+     * @param id The unique identifier for the webhook endpoint.
+     */
+    retrieve: (id: string) => handleOptionalDataResponse<Endpoint>(client.get(`endpoints/${id}`), endpointDates),
+    /**
+     * Creates a new webhook endpoint with an HTTPS URL.
+     *
+     * The webhook endpoint signature is returned on creation, which can be used to verify webhooks.
+     */
+    create,
+    /**
+     * Updates the webhook endpoint by setting the values of the supplied parameters.
+     *
+     * Currently only the active property is supported, meaning this endpoint can be used to temporarily deactivate and reactivate a webhook endpoint.
+     *
+     * The url property cannot be changed once the webhook endpoint has been created, you will need to create a new endpoint if this is required.
+     * @param id The unique identifier for the webhook endpoint.
+     */
+    update,
+    /**
+     * Permanently deletes a webhook endpoint.
+     * @param id The unique identifier for the webhook endpoint.
+     */
+    delete: remove,
+    /**
+     * Finds the webhook endpoint for a URL, creating it when it does not exist and reactivating it when it has been deactivated. The endpoint's signature is trusted
+     * by `webhooks.constructEvent`.
+     *
+     * The signature is returned when an endpoint is created, but may not be when an existing endpoint is found. The signature of an existing endpoint is then not
+     * trusted, so it must be supplied to `webhooks.constructEvent` or trusted with `webhooks.trust`.
+     *
+     * This is safe to call each time an application starts, as an endpoint is only created when the URL does not already have one.
+     * @param url The HTTPS URL for the webhook endpoint.
+     */
+    ensure: async (url: string, options?: RequestOptions) => {
+      const existing = (await list()).filter(v => v.url === url);
+      const endpoint =
+        existing.find(v => v.active) ??
+        (existing.length ? await update(existing[0].id, { active: true }) : await create({ url }, options));
+
+      if (endpoint.signature) {
+        signatures.trust(endpoint.signature);
+      }
+
+      return endpoint;
+    },
+    /**
+     * Replaces the webhook endpoints for a URL with a new endpoint, changing the signature deliveries are signed with.
+     *
+     * The new endpoint is created first and both signatures are trusted by `webhooks.constructEvent` during the overlap, so deliveries signed by either endpoint are
+     * verified. Once the overlap has passed, the old endpoints are deactivated, deleted and their signatures are no longer trusted.
+     *
+     * During the overlap both endpoints are active, so every event is delivered twice, once signed by each endpoint. Listeners registered with `on` are only
+     * called once for each change, but the handlers of `createWebhookHandler` should be safe to call twice for the same event.
+     *
+     * An `AnnatureError` is thrown before the old endpoints are removed when the new endpoint's signature is not returned, as deliveries could not be verified.
+     * @param url The HTTPS URL for the webhook endpoint.
+     * @returns The new endpoint.
+     */
+    rotate: async (url: string, params?: EndpointRotateParams) => {
+      throwIfAborted(params?.signal);
+
+      const previous = (await list()).filter(v => v.url === url);
+      const endpoint = await create({ url }, { idempotencyKey: params?.idempotencyKey });
+
+      if (!endpoint.signature) {
+        throw new AnnatureError(
+          `Endpoint ${endpoint.id} was created without a signature, so the endpoints for ${url} have not been rotated`,
+        );
+      }
+
+      signatures.trust(endpoint.signature);
+      await params?.onCreate?.(endpoint);
+
+      if (previous.length) {
+        await sleep(params?.overlap ?? DEFAULT_ROTATION_OVERLAP, undefined, { signal: params?.signal });
+      }
+
+      for (const v of previous) {
+        if (v.active) {
+          await update(v.id, { active: false });
+        }
+
+        await remove(v.id);
+
+        if (v.signature) {
+          signatures.distrust(v.signature);
+        }
+      }
+
+      return endpoint;
+    },
+  };
+};
@@ -1,7 +1,25 @@
 import { AxiosInstance } from 'axios';
-import { Field } from './fields';
-import { Recipient } from './recipients';
-import { handleDatalessResponse, handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { AnnatureNotFoundError, AnnatureTimeoutError } from './errors';
+import { FieldCreateParams } from './fields';
+import { documentRule, encodeFile, FileInput } from './files';
+import { paginate } from './pagination';
+import { Recipient, recipientDates, RecipientType } from './recipients';
+import {
+  DatePaths,
+  handleDatalessResponse,
+  handleDataResponse,
+  handleDownload,
+  handleOptionalDataResponse,
+  isoStringifyDates,
+  nestDatePaths,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+  throwIfAborted,
+} from './utils';
+import { assertValid, validateEnvelopeCreateParams, validateEnvelopeUpdateParams } from './validation';
 
 export enum EnvelopeStatus {
   Draft = 'draft',
@@ -63,6 +81,15 @@ export type Envelope = {
   metadata: { [key: string]: string | number | null | undefined };
 };
 
+export const envelopeDates: DatePaths = [
+  'created',
+  'sent',
+  'voided',
+  'declined',
+  'completed',
+  ...nestDatePaths('recipients[]', recipientDates),
+];
+
 export type EnvelopesListParams = {
   /** An exact-match filter on the list based on the envelope's `name` property. */
   name?: string;
@@ -89,6 +116,28 @@ export type EnvelopeRetrieveParams = {
   endpointDuration?: number;
 };
 
+export type EnvelopeWaitForStatusParams = EnvelopeRetrieveParams & {
+  /** The number of milliseconds between each retrieval of the envelope. Defaults to 5000. */
+  interval?: number;
+  /** The number of milliseconds to wait before giving up and throwing an `AnnatureTimeoutError`. By default there is no timeout. */
+  timeout?: number;
+  /**
+   * A signal that stops waiting when aborted, throwing an `AbortError` and aborting the request in flight. No request is made when the signal has already been
+   * aborted.
+   */
+  signal?: AbortSignal;
+};
+
+export type EnvelopeDownloadParams = EnvelopeRetrieveParams & {
+  /** Whether to resolve to a stream of the file, rather than buffering the whole file into memory. */
+  stream?: boolean;
+};
+
+type EnvelopeDownload = {
+  (envelope: string | Envelope, params?: EnvelopeDownloadParams & { stream?: false }): Promise<Buffer>;
+  (envelope: string | Envelope, params: EnvelopeDownloadParams & { stream: true }): Promise<Readable>;
+};
+
 export type EnvelopeCreateParams = {
   /** The name of the envelope, displayed in the subject of emails sent to recipients and when viewing the envelope. */
   name: string;
@@ -114,8 +163,8 @@ export type EnvelopeCreateParams = {
   /**
    * The collection of documents that make up the envelope.
    *
-   * Documents must be supplied as a base64 encoded string and decode to a file with mime type of `application/pdf`. The maximum file size for a document must not
-   * be greater than 10mb.
+   * Documents must be a file with mime type of `application/pdf`. The maximum file size for a document must not be greater than 10mb. Documents are validated
+   * before the request is made, throwing an `AnnatureValidationError` when they do not meet these requirements.
    */
   documents: {
     /**
@@ -130,8 +179,8 @@ export type EnvelopeCreateParams = {
      * If a file name is not supplied, one will automatically be generated using a 32 character uuid.
      */
     name?: string;
-    /** The Buffer or the base64 encoded string of the PDF file. */
-    base: Buffer | string;
+    /** The PDF file, supplied as a Buffer, Uint8Array, Blob, Readable stream, base64 encoded string or `{ path }` of a file on disk. */
+    base: FileInput;
   }[];
   /**
    * The collection of recipients that make up the envelope. There must be at least one recipient with a type of `signer`.
@@ -142,88 +191,275 @@ export type EnvelopeCreateParams = {
     Recipient,
     'id' | 'type' | 'muted' | 'declinedReason' | 'created' | 'sent' | 'declined' | 'completed'
   > & {
+    /** The recipient type, defaults to `signer` when not supplied. Possible values are `signer`, `viewer`, and `carbon-copy`. */
+    type?: RecipientType;
     /**
      * The collection of fields for the recipient. Fields can only be supplied when the recipient type is `signer`.
      *
      * Fields are not supported when creating a draft envelope.
      */
-    fields?: (Omit<Field, 'id' | 'required' | 'readOnly' | 'collaborative' | 'checked' | 'dateFormat'> &
-      Pick<Partial<Field>, 'id' | 'required' | 'readOnly' | 'collaborative' | 'checked' | 'dateFormat'>)[];
+    fields?: FieldCreateParams[];
   })[];
   /** Set of key-value pairs you can attach to an envelope. This can be used to store additional information about the envelope in a structured format. */
   metadata?: { [key: string]: string | number | null | undefined };
 };
 
-export default (client: AxiosInstance) => ({
-  /**
-   * Returns a list of envelopes. Envelopes are sorted by creation date, with the most recent envelopes appearing first.
-   *
-   * When no status parameter has been supplied, draft envelopes will not be returned.
-   *
-   * Results are limited to 1000.
-   */
-  list: (params?: EnvelopesListParams) =>
-    handleDataResponse<Envelope[]>(client.get('envelopes', { params: snakeCase(isoStringifyDates(params)) })),
-  /**
-   * Retrieves the details of an existing envelope.
-   *
-   * The recipients list will be returned in the same order in which they were supplied in the body of the create an envelope request.
-   * @param id The unique identifier for the account.
-   */
-  retrieve: (id: string, params?: EnvelopeRetrieveParams) =>
-    handleDataResponse<Envelope | undefined>(
-      client.get(`envelopes/${id}`, { params: snakeCase(isoStringifyDates(params)) }),
-    ),
-  /**
-   * Creates an envelope and by default, sends a signing email to all eligible recipients adhering to the recipient `order` and `muted` properties. For more information about these
-   * properties and how they determine when and if signing emails are sent, refer to the recipients section.
-   *
-   * Envelopes must be created with an `accountId` in order to identify the sender of the envelope. If the account belongs to a group, the envelope will automatically inherit the
-   * same group as the sender.
-   *
-   * Envelopes must contain at least one document and one recipient with a type of `signer`. Recipients with a type of `signer` must also contain at least one field.
-   *
-   * Draft envelopes can be created by supplying `draft` as true and at least one document. A draft can be created with or without recipients, though recipient fields are not
-   * supported.
-   *
-   * Drafts can be opened in the Annature dashboard and fields can be added manually before being sent by opening the following URL:
-   * `https://dashboard.annature.com.au/create-envelope?envelopeId={{envelope_id}}`.
-   */
-  create: (params: EnvelopeCreateParams) =>
-    handleDataResponse<Envelope>(
-      client.post(
-        'envelopes',
-        snakeCase(
-          isoStringifyDates({
-            ...params,
-            documents: params.documents.map(v => ({
-              ...v,
-              base: Buffer.isBuffer(v.base) ? v.base.toString('base64') : v.base,
-            })),
-          }),
+export type EnvelopeUpdateParams = {
+  /** The name of the envelope, displayed in the subject of emails sent to recipients and when viewing the envelope. */
+  name?: string;
+  /** The envelope message, displayed in the body of the emails sent to recipients and when viewing the envelope in Annature. */
+  message?: string;
+  /** Whether or not the envelope should be shared with other accounts that belong to the same group as the envelope. */
+  shared?: boolean;
+  /** The unique identifier of the group to be used for the envelope. The group can only be changed while the envelope is a draft. */
+  groupId?: string;
+  /** Set of key-value pairs you can attach to an envelope, replacing the envelope's existing metadata. */
+  metadata?: { [key: string]: string | number | null | undefined };
+};
+
+/** The parameters that can be updated while an envelope has each status. Completed and voided envelopes cannot be updated. */
+export type EnvelopeUpdatableParams = {
+  [EnvelopeStatus.Draft]: EnvelopeUpdateParams;
+  [EnvelopeStatus.Created]: Omit<EnvelopeUpdateParams, 'groupId'>;
+  [EnvelopeStatus.Sent]: Omit<EnvelopeUpdateParams, 'groupId'>;
+  [EnvelopeStatus.Completed]: never;
+  [EnvelopeStatus.Voided]: never;
+};
+
+/**
+ * The parameters that can be updated for an envelope whose status is one of `S`. Only the parameters allowed in every one of the statuses are accepted, so an envelope
+ * whose status is not known, such as a plain `Envelope`, cannot have its group changed.
+ */
+type EnvelopeUpdatableParamsOf<S extends EnvelopeStatus> = [EnvelopeUpdatableParams[S]] extends [never]
+  ? never
+  : Pick<EnvelopeUpdateParams, keyof EnvelopeUpdatableParams[S] & keyof EnvelopeUpdateParams>;
+
+type EnvelopeUpdate = {
+  <S extends EnvelopeStatus>(
+    envelope: Envelope & { status: S },
+    params: EnvelopeUpdatableParamsOf<S>,
+  ): Promise<Envelope>;
+  (id: string, params: EnvelopeUpdateParams): Promise<Envelope>;
+};
+
+const DEFAULT_WAIT_INTERVAL = 5000;
+
+const ENVELOPES_LIST_LIMIT = 1000;
+
+export default (client: AxiosInstance, downloader: AxiosInstance) => {
+  const list = (params?: EnvelopesListParams) =>
+    handleDataResponse<Envelope[]>(
+      client.get('envelopes', { params: snakeCase(isoStringifyDates(params)) }),
+      envelopeDates,
+    );
+
+  const retrieve = async (id: string, params?: EnvelopeRetrieveParams, signal?: AbortSignal) => {
+    try {
+      return await handleOptionalDataResponse<Envelope>(
+        client.get(`envelopes/${id}`, { params: snakeCase(isoStringifyDates(params)), signal }),
+        envelopeDates,
+      );
+    } catch (error) {
+      throwIfAborted(signal);
+      throw error;
+    }
+  };
+
+  const download =
+    (copy: 'original' | 'master' | 'certificate'): EnvelopeDownload =>
+    (envelope: string | Envelope, params?: EnvelopeDownloadParams): Promise<any> => {
+      const id = typeof envelope === 'string' ? envelope : envelope.id;
+      const { stream, ...retrieveParams } = params ?? {};
+
+      return handleDownload(
+        downloader,
+        !!stream,
+        typeof envelope === 'string' ? undefined : envelope[copy],
+        async () => {
+          const refreshed = await retrieve(id, retrieveParams);
+
+          if (!refreshed) {
+            throw new AnnatureNotFoundError(`Envelope ${id} does not exist`);
+          }
+
+          return refreshed[copy];
+        },
+      );
+    };
+
+  return {
+    /**
+     * Returns a list of envelopes. Envelopes are sorted by creation date, with the most recent envelopes appearing first.
+     *
+     * When no status parameter has been supplied, draft envelopes will not be returned.
+     *
+     * Results are limited to 1000.
+     */
+    list,
+    /**
+     * Returns every envelope matching the parameters, working around the 1000 result limit of `list` by listing envelopes in windows of creation dates. Envelopes are
+     * sorted by creation date, with the most recent envelopes appearing first.
+     *
+     * When no status parameter has been supplied, draft envelopes will not be returned.
+     * @example
+     * for await (const envelope of annature.envelopes.listAll({ status: EnvelopeStatus.Completed })) {
+     *   console.log(envelope.name);
+     * }
+     */
+    listAll: (params?: EnvelopesListParams): AsyncIterable<Envelope> =>
+      paginate(createdBefore => list({ ...params, createdBefore }), ENVELOPES_LIST_LIMIT, params?.createdBefore),
+    /**
+     * Retrieves the details of an existing envelope.
+     *
+     * The recipients list will be returned in the same order in which they were supplied in the body of the create an envelope request.
+     * @param id The unique identifier for the account.
+     * @param signal Aborts the request, rejecting with an `AbortError`.
+     */
+    retrieve,
+    /**
+     * Retrieves an envelope repeatedly until its status is one of the given statuses, resolving to the envelope. When a timeout is given, the envelope is retrieved
+     * one last time once it has elapsed before rejecting with an `AnnatureTimeoutError`.
+     * @param id The unique identifier for the envelope.
+     * @param statuses The statuses to wait for, for example `completed` and `voided`.
+     */
+    waitForStatus: async (id: string, statuses: EnvelopeStatus[], params?: EnvelopeWaitForStatusParams) => {
+      const { interval = DEFAULT_WAIT_INTERVAL, timeout, signal, ...retrieveParams } = params ?? {};
+      const deadline = timeout === undefined ? Infinity : Date.now() + timeout;
+
+      throwIfAborted(signal);
+
+      for (;;) {
+        const envelope = await retrieve(id, retrieveParams, signal);
+
+        if (!envelope) {
+          throw new AnnatureNotFoundError(`Envelope ${id} does not exist`);
+        }
+
+        if (statuses.includes(envelope.status)) {
+          return envelope;
+        }
+
+        const remaining = deadline - Date.now();
+
+        if (remaining <= 0) {
+          throw new AnnatureTimeoutError(
+            `Envelope ${id} did not reach a status of ${statuses.join(' or ')} within ${timeout}ms`,
+          );
+        }
+
+        await sleep(Math.min(interval, remaining), undefined, { signal });
+      }
+    },
+    /**
+     * Downloads the original copy of an envelope.
+     *
+     * When an envelope is supplied its `original` endpoint is used, and the envelope is retrieved again only if the endpoint has expired.
+     * @param envelope The envelope, or the unique identifier for the envelope.
+     */
+    downloadOriginal: download('original'),
+    /**
+     * Downloads the master copy of an envelope.
+     *
+     * When an envelope is supplied its `master` endpoint is used, and the envelope is retrieved again only if the endpoint has expired.
+     * @param envelope The envelope, or the unique identifier for the envelope.
+     */
+    downloadMaster: download('master'),
+    /**
+     * Downloads the certificate of completion of an envelope, which is only available once the envelope status is `completed`.
+     *
+     * When an envelope is supplied its `certificate` endpoint is used, and the envelope is retrieved again only if the endpoint has expired.
+     * @param envelope The envelope, or the unique identifier for the envelope.
+     */
+    downloadCertificate: download('certificate'),
+    /**
+     * Creates an envelope and by default, sends a signing email to all eligible recipients adhering to the recipient `order` and `muted` properties. For more information about these
+     * properties and how they determine when and if signing emails are sent, refer to the recipients section.
+     *
+     * Envelopes must be created with an `accountId` in order to identify the sender of the envelope. If the account belongs to a group, the envelope will automatically inherit the
+     * same group as the sender.
+     *
+     * Envelopes must contain at least one document and one recipient with a type of `signer`. Recipients with a type of `signer` must also contain at least one field.
+     *
+     * Draft envelopes can be created by supplying `draft` as true and at least one document. A draft can be created with or without recipients, though recipient fields are not
+     * supported.
+     *
+     * Drafts can be opened in the Annature dashboard and fields can be added manually before being sent by opening the following URL:
+     * `https://dashboard.annature.com.au/create-envelope?envelopeId={{envelope_id}}`.
+     *
+     * The parameters are validated before the request is made, throwing an `AnnatureValidationError` listing the issues found.
+     */
+    create: async (params: EnvelopeCreateParams, options?: RequestOptions) => {
+      assertValid(validateEnvelopeCreateParams(params));
+
+      return handleDataResponse<Envelope>(
+        client.post(
+          'envelopes',
+          snakeCase(
+            isoStringifyDates({
+              ...params,
+              documents: await Promise.all(
+                params.documents.map(async (v, i) => ({
+                  ...v,
+                  base: await encodeFile(v.base, documentRule, `documents[${i}].base`),
+                })),
+              ),
+            }),
+          ),
+          requestConfig(options),
         ),
-      ),
-    ),
-  /**
-   * Sends an existing draft envelope to all eligible recipients.
-   *
-   * This action can only be done when an envelope's status is `draft`.
-   * @param id The unique identifier for the envelope.
-   */
-  send: (id: string) => handleDatalessResponse(client.post(`envelopes/${id}/send`)),
-  /**
-   * Voids an envelope cancelling all outstanding signature requests and preventing the envelope from being completed.
-   *
-   * This action can only be done when an envelope's status is `sent`. When a recipient attempts to open an envelope that has been voided, they will be prompted with an error
-   * message notifying them that the envelope has been voided by the sender.
-   * @param id The unique identifier for the envelope.
-   */
-  void: (id: string) => handleDatalessResponse(client.post(`envelopes/${id}/void`)),
-  /**
-   * Deletes an existing draft envelope.
-   *
-   * This action can only be done when an envelope's status is `draft`.
-   * @param id The unique identifier for the envelope.
-   */
-  delete: (id: string) => handleDatalessResponse(client.delete(`envelopes/${id}`)),
-});
+        envelopeDates,
+      );
+    },
+    /**
+     * Validates the parameters for creating an envelope against the rules documented by the API without making a request, returning the issues found. An
+     * empty list means no issues were found, though the API may still reject the envelope, for example when an anchor cannot be found in the documents.
+     */
+    validate: validateEnvelopeCreateParams,
+    /**
+     * Updates the envelope by setting the values of the supplied parameters. Any parameters not supplied will be left unchanged.
+     *
+     * Envelopes can be updated while their status is `draft`, `created` or `sent`, though the group can only be changed while the envelope is a draft. When an envelope is
+     * supplied, the parameters are typed by the envelope's status and validated against it before the request is made, throwing an `AnnatureValidationError` listing the
+     * issues found. As the status of a plain `Envelope` is not known at compile time, only the parameters allowed in every status are accepted for it, and the group of
+     * a draft is changed by supplying its id. When an id is supplied the parameters are only validated by the API.
+     * @param envelope The envelope, or the unique identifier for the envelope.
+     */
+    update: ((envelope: string | Envelope, params: EnvelopeUpdateParams) => {
+      if (typeof envelope !== 'string') {
+        assertValid(validateEnvelopeUpdateParams(envelope.status, params));
+      }
+
+      return handleDataResponse<Envelope>(
+        client.put(
+          `envelopes/${typeof envelope === 'string' ? envelope : envelope.id}`,
+          snakeCase(isoStringifyDates(params)),
+        ),
+        envelopeDates,
+      );
+    }) as EnvelopeUpdate,
+    /**
+     * Sends an existing draft envelope to all eligible recipients.
+     *
+     * This action can only be done when an envelope's status is `draft`.
+     * @param id The unique identifier for the envelope.
+     */
+    send: (id: string, options?: RequestOptions) =>
+      handleDatalessResponse(client.post(`envelopes/${id}/send`, undefined, requestConfig(options))),
+    /**
+     * Voids an envelope cancelling all outstanding signature requests and preventing the envelope from being completed.
+     *
+     * This action can only be done when an envelope's status is `sent`. When a recipient attempts to open an envelope that has been voided, they will be prompted with an error
+     * message notifying them that the envelope has been voided by the sender.
+     * @param id The unique identifier for the envelope.
+     */
+    void: (id: string, options?: RequestOptions) =>
+      handleDatalessResponse(client.post(`envelopes/${id}/void`, undefined, requestConfig(options))),
+    /**
+     * Deletes an existing draft envelope.
+     *
+     * This action can only be done when an envelope's status is `draft`.
+     * @param id The unique identifier for the envelope.
+     */
+    delete: (id: string) => handleDatalessResponse(client.delete(`envelopes/${id}`)),
+  };
+};
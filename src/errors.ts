@@ -0,0 +1,117 @@
+export type AnnatureErrorDetails = {
+  /** The HTTP status code of the response, if one was received. */
+  status?: number;
+  /** The HTTP method of the request. */
+  method?: string;
+  /** The path of the request, relative to the API's base URL. */
+  path?: string;
+  /** The body of the response, if one was received. */
+  body?: any;
+  /** The identifier Annature assigned to the request, useful when contacting support. */
+  requestId?: string;
+  /** The underlying error. */
+  cause?: unknown;
+};
+
+export type ValidationIssue = {
+  /** The path of the invalid property within the supplied parameters, for example `documents[0].base`. */
+  path: string;
+  /** A description of the issue. */
+  message: string;
+};
+
+/** The base class of all errors thrown by this library. */
+export class AnnatureError extends Error {
+  readonly status?: number;
+  readonly method?: string;
+  readonly path?: string;
+  readonly body?: any;
+  readonly requestId?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: AnnatureErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body;
+    this.requestId = details.requestId;
+    this.cause = details.cause;
+  }
+}
+
+/** Thrown when the API responds with 400 bad request or 422 unprocessable entity, or when parameters fail validation before a request is made. */
+export class AnnatureValidationError extends AnnatureError {
+  /** The issues found when parameters fail validation before a request is made. */
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, details: AnnatureErrorDetails & { issues?: ValidationIssue[] } = {}) {
+    super(message, details);
+    this.issues = details.issues ?? [];
+  }
+}
+
+/** Thrown when the API responds with 401 unauthorized or 403 forbidden, typically because the credentials are invalid. */
+export class AnnatureAuthenticationError extends AnnatureError {}
+
+/** Thrown when the API responds with 404 not found. */
+export class AnnatureNotFoundError extends AnnatureError {}
+
+/** Thrown when the API responds with 429 too many requests. */
+export class AnnatureRateLimitError extends AnnatureError {}
+
+/** Thrown when no response was received from the API, for example due to a network failure or timeout. */
+export class AnnatureConnectionError extends AnnatureError {}
+
+/** Thrown when an operation, such as waiting for an envelope to reach a status, did not finish within its timeout. */
+export class AnnatureTimeoutError extends AnnatureError {}
+
+/** Thrown when a webhook delivery cannot be verified. */
+export class AnnatureSignatureVerificationError extends AnnatureError {}
+
+const errorClass = (status: number) => {
+  switch (status) {
+    case 400:
+    case 422:
+      return AnnatureValidationError;
+    case 401:
+    case 403:
+      return AnnatureAuthenticationError;
+    case 404:
+      return AnnatureNotFoundError;
+    case 429:
+      return AnnatureRateLimitError;
+    default:
+      return AnnatureError;
+  }
+};
+
+/**
+ * Converts an error thrown by axios into the matching `AnnatureError`. Errors that did not originate from axios are returned as is.
+ * @param error The error thrown while making the request.
+ */
+export const toAnnatureError = (error: any) => {
+  if (error instanceof AnnatureError || !error?.isAxiosError) {
+    return error;
+  }
+
+  const details: AnnatureErrorDetails = {
+    method: error.config?.method?.toUpperCase(),
+    path: error.config?.url,
+    cause: error,
+  };
+
+  if (!error.response) {
+    return new AnnatureConnectionError(error.message, details);
+  }
+
+  const { status, data, headers } = error.response;
+
+  return new (errorClass(status))(data?.message ?? error.message, {
+    ...details,
+    status,
+    body: data,
+    requestId: headers?.['x-request-id'],
+  });
+};
@@ -0,0 +1,166 @@
+import { EventEmitter } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
+import envelopes, { Envelope, EnvelopeStatus, EnvelopeWaitForStatusParams } from './envelopes';
+import { AnnatureNotFoundError, AnnatureTimeoutError } from './errors';
+import { Recipient } from './recipients';
+import { envelopeChanges, SyncEvent } from './sync';
+import { throwIfAborted } from './utils';
+import { WebhookEvent, WebhookEventType } from './webhooks';
+
+export type EnvelopeTransition = {
+  /** Whether the change was received by webhook or detected by polling the envelope with `watch`. */
+  source: 'webhook' | 'poll';
+  /** The envelope before the change. This is only known when the change was detected by polling, as webhooks only contain the envelope after the change. */
+  before?: Envelope;
+  /** The envelope after the change. */
+  after: Envelope;
+};
+
+export type RecipientTransition = {
+  /** Whether the change was received by webhook or detected by polling the envelope with `watch`. */
+  source: 'webhook' | 'poll';
+  /** The recipient before the change. This is only known when the change was detected by polling, as webhooks only contain the recipient after the change. */
+  before?: Recipient;
+  /** The recipient after the change. */
+  after: Recipient & { envelopeId: string };
+};
+
+export type AnnatureEvents = {
+  'envelope.sent': EnvelopeTransition;
+  'envelope.completed': EnvelopeTransition;
+  'envelope.voided': EnvelopeTransition;
+  'envelope.declined': EnvelopeTransition;
+  'recipient.sent': RecipientTransition;
+  'recipient.completed': RecipientTransition;
+  'recipient.declined': RecipientTransition;
+  'recipient.failed': RecipientTransition;
+};
+
+export type AnnatureEventName = keyof AnnatureEvents;
+
+export type AnnatureEventListener<E extends AnnatureEventName> = (transition: AnnatureEvents[E]) => void;
+
+/** Called with the error thrown by a listener registered with `on` or `once`. */
+export type AnnatureEventErrorListener = (error: Error, event: AnnatureEventName) => void;
+
+export type AnnatureWatchParams = EnvelopeWaitForStatusParams;
+
+const EVENT_NAMES: { [key in SyncEvent['type']]: AnnatureEventName } = {
+  [WebhookEventType.EnvelopeSent]: 'envelope.sent',
+  [WebhookEventType.EnvelopeCompleted]: 'envelope.completed',
+  [WebhookEventType.EnvelopeVoided]: 'envelope.voided',
+  [WebhookEventType.EnvelopeDeclined]: 'envelope.declined',
+  [WebhookEventType.RecipientSent]: 'recipient.sent',
+  [WebhookEventType.RecipientCompleted]: 'recipient.completed',
+  [WebhookEventType.RecipientDeclined]: 'recipient.declined',
+  [WebhookEventType.RecipientFailed]: 'recipient.failed',
+};
+
+/** The number of objects whose latest transition is remembered to avoid emitting a change received by both webhook and polling twice. */
+const EMITTED_SIZE = 10000;
+
+const DEFAULT_WATCH_INTERVAL = 5000;
+
+/** The time of the most recent change recorded by an object's dates, which are set by Annature so can be compared between webhooks and polling. */
+const changedAt = (o: Envelope | Recipient) =>
+  Math.max(
+    ...[o.created, o.sent, o.declined, o.completed, 'voided' in o ? o.voided : undefined].map(v => v?.getTime() ?? 0),
+  );
+
+export default (retrieve: ReturnType<typeof envelopes>['retrieve']) => {
+  const emitter = new EventEmitter();
+  const errorListeners = new Set<AnnatureEventErrorListener>();
+  // The latest transition emitted for each object. Declining an envelope does not change its status, so it is tracked separately.
+  const emitted = new Map<string, { type: SyncEvent['type']; changedAt: number }>();
+
+  const emit = (event: Pick<SyncEvent, 'type' | 'data' | 'previous'>, source: EnvelopeTransition['source']) => {
+    const key = event.type === WebhookEventType.EnvelopeDeclined ? `${event.data.id}:declined` : event.data.id;
+    const name = EVENT_NAMES[event.type];
+
+    const latest = emitted.get(key);
+
+    // A transition matching the object's latest one is the same change arriving from another source or a redelivery, and one older than the latest is a webhook
+    // delivered after a later change was detected by polling. A recipient that is sent again after failing has transitioned in between, so is emitted again.
+    if (latest && (latest.type === event.type || changedAt(event.data) < latest.changedAt)) {
+      return;
+    }
+
+    let failed = false;
+
+    // Listeners are called individually so that one throwing neither stops the others nor fails the verification of a webhook.
+    for (const listener of emitter.rawListeners(name) as ((transition: unknown) => void)[]) {
+      try {
+        listener({ source, before: event.previous, after: event.data });
+      } catch (error: any) {
+        failed = true;
+
+        if (errorListeners.size) {
+          errorListeners.forEach(v => v(error, name));
+        } else {
+          process.emitWarning(error);
+        }
+      }
+    }
+
+    // Left unrecorded when a listener failed, so that a redelivery of the webhook emits the change again.
+    if (!failed) {
+      emitted.delete(key);
+      emitted.set(key, { type: event.type, changedAt: changedAt(event.data) });
+
+      if (emitted.size > EMITTED_SIZE) {
+        emitted.delete(emitted.keys().next().value);
+      }
+    }
+  };
+
+  return {
+    emitter,
+    onError: (listener: AnnatureEventErrorListener) => {
+      errorListeners.add(listener);
+
+      return () => void errorListeners.delete(listener);
+    },
+    webhook: (event: WebhookEvent) => {
+      if (event.type !== WebhookEventType.RecipientTokenRequest) {
+        emit(event, 'webhook');
+      }
+    },
+    watch: async (id: string, params?: AnnatureWatchParams) => {
+      const { interval = DEFAULT_WATCH_INTERVAL, timeout, signal, ...retrieveParams } = params ?? {};
+      const deadline = timeout === undefined ? Infinity : Date.now() + timeout;
+      let previous: Envelope | undefined;
+
+      throwIfAborted(signal);
+
+      for (;;) {
+        const envelope = await retrieve(id, retrieveParams, signal);
+
+        if (!envelope) {
+          throw new AnnatureNotFoundError(`Envelope ${id} does not exist`);
+        }
+
+        for (const event of envelopeChanges(previous, envelope)) {
+          emit(event, 'poll');
+        }
+
+        previous = envelope;
+
+        if (
+          envelope.status === EnvelopeStatus.Completed ||
+          envelope.status === EnvelopeStatus.Voided ||
+          envelope.declined
+        ) {
+          return envelope;
+        }
+
+        const remaining = deadline - Date.now();
+
+        if (remaining <= 0) {
+          throw new AnnatureTimeoutError(`Envelope ${id} was not completed, voided or declined within ${timeout}ms`);
+        }
+
+        await sleep(Math.min(interval, remaining), undefined, { signal });
+      }
+    },
+  };
+};
@@ -1,5 +1,5 @@
 import { AxiosInstance } from 'axios';
-import { handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { DatePaths, handleDataResponse, handleOptionalDataResponse, isoStringifyDates, snakeCase } from './utils';
 
 export enum FieldType {
   Signature = 'signature',
@@ -9,6 +9,7 @@ export enum FieldType {
   Input = 'input',
   Checkbox = 'checkbox',
   Dropdown = 'dropdown',
+  Attachment = 'attachment',
 }
 
 export enum FieldFontType {
@@ -16,15 +17,17 @@ export enum FieldFontType {
   Helvetica = 'helvetica',
 }
 
-export type Field = {
+export enum FieldDateFormat {
+  DayMonthYear = 'DD/MM/YYYY',
+}
+
+type BaseField = {
   /**
    * The user-supplied identifier for the field. Fields can be retrieved using this property with the retrieve a field endpoint after an envelope has been created.
    *
    * This property must be unique to each field in an envelope.
    */
   id: string;
-  /** The field type, possible values are `signature`, `initials`, `witness`, `date`, `input`, `checkbox`, and `dropdown`. */
-  type: FieldType;
   /**
    * The page number in the envelope that the field should be placed on. When using more than one document in an envelope, assume page numbers as if documents are
    * merged together.
@@ -71,19 +74,6 @@ export type Field = {
    * Collaborative fields are live until the final recipient has completed the envelope, meaning the value is only printed on the document on envelope completion.
    */
   collaborative: boolean;
-  /**
-   * The field's value.
-   *
-   * This property can be used on envelope creation to set an input field's starting text or for dropdown fields to select the starting option. This value will be updated
-   * on completion to reflect the recipient's selection.
-   */
-  value?: string;
-  /**
-   * For checkbox fields this represents the checked status.
-   *
-   * This property can be used on envelope creation to start a checkbox as checked or unchecked and will be updated on completion to reflect the recipient's selection.
-   */
-  checked: boolean;
   /**
    * The pixel-based height for the field.
    *
@@ -97,31 +87,88 @@ export type Field = {
    * assuming a 1:1 aspect ratio.
    */
   width?: number;
-  /** The collection of options used to populate the html dropdown field. */
-  options?: {
-    /** The value for the option. This property will be saved on the field's value property on completion. */
-    value: string;
-    /** The user-facing option for the field. This is what will be printed on the document when selected. */
-    option: string;
-  }[];
+  /** Date and time at which the field was created. */
+  created: Date;
+};
+
+export type SignatureField = BaseField & { type: FieldType.Signature };
+
+export type InitialsField = BaseField & { type: FieldType.Initials };
+
+export type WitnessField = BaseField & { type: FieldType.Witness };
+
+export type DateField = BaseField & {
+  type: FieldType.Date;
   /**
-   * The pixel-based font size for the field, only applicable when the `type` is `date`.
+   * The pixel-based font size for the field.
    *
    * Font size can range between 8 and 32 with the default being 12.
    */
   fontSize?: number;
+  /** The font type for the field, possible values are `courier` and `helvetica`. */
+  fontType?: FieldFontType;
+  /** The date format to be used when printing dates on the document. The API reference only documents `DD/MM/YYYY`, which can also be supplied as a string. */
+  dateFormat: FieldDateFormat | `${FieldDateFormat}`;
+};
+
+export type InputField = BaseField & {
+  type: FieldType.Input;
   /**
-   * The font type for the field, only applicable when the type is date.
+   * The field's value.
    *
-   * Possible values are courier and helvetica.
+   * This property can be used on envelope creation to set the input's starting text, and will be updated on completion to reflect the text entered by the recipient.
    */
-  fontType?: FieldFontType;
-  /** The date format to be used when printing dates on the document. */
-  dateFormat: 'DD/MM/YYYY';
-  /** Date and time at which the field was created. */
-  created: Date;
+  value?: string;
+};
+
+export type CheckboxField = BaseField & {
+  type: FieldType.Checkbox;
+  /**
+   * The checked status of the checkbox.
+   *
+   * This property can be used on envelope creation to start a checkbox as checked or unchecked and will be updated on completion to reflect the recipient's selection.
+   */
+  checked: boolean;
+};
+
+export type DropdownField = BaseField & {
+  type: FieldType.Dropdown;
+  /**
+   * The field's value.
+   *
+   * This property can be used on envelope creation to select the starting option, and will be updated on completion to reflect the recipient's selection.
+   */
+  value?: string;
+  /** The collection of options used to populate the html dropdown field. */
+  options: {
+    /** The value for the option. This property will be saved on the field's value property on completion. */
+    value: string;
+    /** The user-facing option for the field. This is what will be printed on the document when selected. */
+    option: string;
+  }[];
 };
 
+/** A field allowing the recipient to upload files during the signing flow, which can be retrieved with `fields.retrieveAttachments`. */
+export type AttachmentField = BaseField & { type: FieldType.Attachment };
+
+/** A field of an envelope, discriminated by its `type`. */
+export type Field =
+  | SignatureField
+  | InitialsField
+  | WitnessField
+  | DateField
+  | InputField
+  | CheckboxField
+  | DropdownField
+  | AttachmentField;
+
+type FieldCreateDefaults = 'id' | 'required' | 'readOnly' | 'collaborative' | 'checked' | 'dateFormat';
+
+/** The parameters for a field when creating an envelope, where properties with defaults are optional. */
+export type FieldCreateParams<F extends Field = Field> = F extends Field
+  ? Omit<F, FieldCreateDefaults | 'created'> & Partial<Pick<F, Extract<keyof F, FieldCreateDefaults>>>
+  : never;
+
 export type Attachment = {
   id: string;
   original: string;
@@ -131,6 +178,10 @@ export type Attachment = {
   created: Date;
 };
 
+const fieldDates: DatePaths = ['created'];
+
+const attachmentDates: DatePaths = ['created'];
+
 export type FieldsListParams = {
   /** The unique identifier of the envelope that the fields belong to. */
   envelopeId: string;
@@ -147,6 +198,7 @@ export default (client: AxiosInstance) => ({
   list: (params: FieldsListParams) =>
     handleDataResponse<(Field & { recipientId: string })[]>(
       client.get('fields', { params: snakeCase(isoStringifyDates(params)) }),
+      fieldDates,
     ),
   /**
    * Retrieves a single field created for an envelope using the `id` property that was supplied in the create an envelope endpoint.
@@ -155,7 +207,10 @@ export default (client: AxiosInstance) => ({
    * @param id The unique identifier for the field.
    */
   retrieve: (id: string, params: FieldRetrieveParams) =>
-    handleDataResponse<Field | undefined>(client.get(`fields/${id}`, { params: snakeCase(isoStringifyDates(params)) })),
+    handleOptionalDataResponse<Field>(
+      client.get(`fields/${id}`, { params: snakeCase(isoStringifyDates(params)) }),
+      fieldDates,
+    ),
   /**
    * Retrieves all attachments for a field using the `id` property that was supplied in the create an envelope endpoint.
    *
@@ -166,5 +221,6 @@ export default (client: AxiosInstance) => ({
   retrieveAttachments: (id: string, params: FieldRetrieveParams) =>
     handleDataResponse<Attachment[]>(
       client.post(`fields/${id}/attachments`, { params: snakeCase(isoStringifyDates(params)) }),
+      attachmentDates,
     ),
 });
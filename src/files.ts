@@ -0,0 +1,111 @@
+import { Blob } from 'buffer';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { AnnatureValidationError } from './errors';
+
+/**
+ * A file supplied to the API. Files can be supplied as a Buffer, Uint8Array, Blob or Readable stream, as a base64 encoded string, or as an object containing the
+ * path of a file on disk.
+ */
+export type FileInput = Buffer | Uint8Array | Blob | Readable | string | { path: string };
+
+type FileRule = {
+  /** A description of the accepted files, used in error messages. */
+  description: string;
+  /** The signatures, or magic bytes, that accepted files start with. */
+  signatures: Buffer[];
+  /** The maximum size of accepted files in bytes. */
+  maxSize: number;
+};
+
+const MB = 1024 * 1024;
+
+export const documentRule: FileRule = {
+  description: 'a PDF',
+  signatures: [Buffer.from('%PDF-')],
+  maxSize: 10 * MB,
+};
+
+export const logoRule: FileRule = {
+  description: 'a JPEG, PNG or GIF image',
+  signatures: [
+    Buffer.from([0xff, 0xd8, 0xff]),
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    Buffer.from('GIF87a'),
+    Buffer.from('GIF89a'),
+  ],
+  maxSize: 5 * MB,
+};
+
+/**
+ * Reads a file. Streams and files on disk are read until more than `maxSize` bytes have been read, so a file that is too large is never held in memory in full, and
+ * the bytes read so far are returned.
+ */
+const read = async (input: FileInput, maxSize: number): Promise<Buffer> => {
+  if (Buffer.isBuffer(input)) {
+    return input;
+  }
+
+  if (typeof input === 'string') {
+    return Buffer.from(input, 'base64');
+  }
+
+  if (input instanceof Uint8Array) {
+    return Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+  }
+
+  if (input instanceof Blob) {
+    return Buffer.from(await input.arrayBuffer());
+  }
+
+  if (input instanceof Readable) {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of input) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      size += chunks[chunks.length - 1].length;
+
+      if (size > maxSize) {
+        input.destroy();
+        break;
+      }
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  // Reading one byte more than the maximum size is enough to know the file is too large.
+  return read(createReadStream(input.path, { end: maxSize }), maxSize);
+};
+
+/**
+ * Reads a file, validates it against the rule and returns it as a base64 encoded string, throwing an `AnnatureValidationError` when it is not accepted by the API.
+ * @param input The file.
+ * @param rule The rule the file must satisfy.
+ * @param path The path of the file within the supplied parameters, used in error messages.
+ */
+export const encodeFile = async (input: FileInput, rule: FileRule, path: string) => {
+  let data: Buffer;
+
+  try {
+    data = await read(input, rule.maxSize);
+  } catch (error: any) {
+    throw new AnnatureValidationError(`${path} could not be read: ${error?.message}`, {
+      issues: [{ path, message: `Could not be read: ${error?.message}` }],
+      cause: error,
+    });
+  }
+
+  const issue = !rule.signatures.some(v => data.subarray(0, v.length).equals(v))
+    ? `Must be ${rule.description}`
+    : data.length > rule.maxSize
+    ? `Must not be greater than ${rule.maxSize / MB}mb`
+    : undefined;
+
+  if (issue) {
+    throw new AnnatureValidationError(`${path}: ${issue}`, { issues: [{ path, message: issue }] });
+  }
+
+  return data.toString('base64');
+};
@@ -1,5 +1,15 @@
 import { AxiosInstance } from 'axios';
-import { handleDatalessResponse, handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { encodeFile, FileInput, logoRule } from './files';
+import {
+  DatePaths,
+  handleDatalessResponse,
+  handleDataResponse,
+  handleOptionalDataResponse,
+  isoStringifyDates,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+} from './utils';
 
 export type Group = {
   /** The unique identifier for the group. */
@@ -24,6 +34,8 @@ export type Group = {
   created: Date;
 };
 
+const groupDates: DatePaths = ['created'];
+
 export type GroupsListParams = {
   /** An exact-match filter on the list based on the group's `name` property. */
   name?: string;
@@ -35,11 +47,11 @@ export type GroupsListParams = {
 
 export type GroupCreateParams = Omit<Group, 'id' | 'logo' | 'colour' | 'created'> & {
   /**
-   * Buffer or Base64 encoded string of the logo.
+   * The logo, supplied as a Buffer, Uint8Array, Blob, Readable stream, base64 encoded string or `{ path }` of a file on disk.
    *
-   * The data should decode into an image with a mime type of `image/jpeg`, `image/png` or `image/gif` and the file size must not be greater than 5mb.
+   * The logo must be an image with a mime type of `image/jpeg`, `image/png` or `image/gif` and the file size must not be greater than 5mb.
    */
-  logo?: Buffer | string;
+  logo?: FileInput;
   /**
    * Hex colour code representing the group's branding colour.
    *
@@ -48,37 +60,43 @@ export type GroupCreateParams = Omit<Group, 'id' | 'logo' | 'colour' | 'created'
   colour?: string;
 };
 
-export default (client: AxiosInstance) => ({
-  /**
-   * Returns a list of groups. Groups are sorted by creation date, with the most recently created groups appearing first.
-   *
-   * Results are limited to 1000.
-   */
-  list: (params?: GroupsListParams) =>
-    handleDataResponse<Group[]>(client.get('groups', { params: snakeCase(isoStringifyDates(params)) })),
-  /**
-   * Retrieves the details of an existing group.
-   * @param id The unique identifier for the account.
-   */
-  retrieve: (id: string) => handleDataResponse<Group | undefined>(client.get(`groups/${id}`)),
-  /** Creates a new group. */
-  create: (params: GroupCreateParams) =>
-    handleDataResponse<Group>(
-      client.post(
-        'groups',
-        snakeCase(
-          isoStringifyDates({
-            ...params,
-            logo: Buffer.isBuffer(params.logo) ? params.logo.toString('base64') : params.logo,
-          }),
+export default (client: AxiosInstance) => {
+  const list = (params?: GroupsListParams) =>
+    handleDataResponse<Group[]>(client.get('groups', { params: snakeCase(isoStringifyDates(params)) }), groupDates);
+
+  return {
+    /**
+     * Returns a list of groups. Groups are sorted by creation date, with the most recently created groups appearing first.
+     *
+     * Results are limited to 1000.
+     */
+    list,
+    /**
+     * Retrieves the details of an existing group.
+     * @param id The unique identifier for the account.
+     */
+    retrieve: (id: string) => handleOptionalDataResponse<Group>(client.get(`groups/${id}`), groupDates),
+    /** Creates a new group. */
+    create: async (params: GroupCreateParams, options?: RequestOptions) =>
+      handleDataResponse<Group>(
+        client.post(
+          'groups',
+          snakeCase(
+            isoStringifyDates({
+              ...params,
+              logo: params.logo && (await encodeFile(params.logo, logoRule, 'logo')),
+            }),
+          ),
+          requestConfig(options),
         ),
+        groupDates,
       ),
-    ),
-  /**
-   * Permanently deletes a group.
-   *
-   * Any accounts and envelopes that were assigned to the group will be unassigned.
-   * @param id The unique identifier for the account.
-   */
-  restore: (id: string) => handleDatalessResponse(client.delete(`groups/${id}`)),
-});
+    /**
+     * Permanently deletes a group.
+     *
+     * Any accounts and envelopes that were assigned to the group will be unassigned.
+     * @param id The unique identifier for the account.
+     */
+    restore: (id: string) => handleDatalessResponse(client.delete(`groups/${id}`)),
+  };
+};
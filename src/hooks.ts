@@ -0,0 +1,119 @@
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AnnatureError, toAnnatureError } from './errors';
+
+/** Called before each request is sent. The hook may modify the request, or return a new one to be sent in its place. */
+export type RequestHook = (
+  request: AxiosRequestConfig,
+) => AxiosRequestConfig | void | Promise<AxiosRequestConfig | void>;
+
+/** Called after each successful response is received. The hook may modify the response, or return a new one to be used in its place. */
+export type ResponseHook = (response: AxiosResponse) => AxiosResponse | void | Promise<AxiosResponse | void>;
+
+/** Called after each failed request, once all retries have been exhausted. */
+export type ErrorHook = (error: AnnatureError) => void | Promise<void>;
+
+const REDACTED = '[REDACTED]';
+
+const SECRET_HEADERS = ['x-annature-key'];
+
+/** Keys of request bodies holding base64 encoded files. */
+const FILE_KEYS = ['base', 'logo'];
+
+const redactFiles = (o: any): any => {
+  if (Array.isArray(o)) {
+    return o.map(redactFiles);
+  }
+
+  if (typeof o !== 'object' || o === null) {
+    return o;
+  }
+
+  return Object.fromEntries(
+    Object.entries(o).map(([key, value]) => [
+      key,
+      FILE_KEYS.includes(key) && typeof value === 'string'
+        ? `[${Buffer.byteLength(value, 'base64')} bytes]`
+        : redactFiles(value),
+    ]),
+  );
+};
+
+/**
+ * Returns a copy of a request that is safe to log, with the `X-Annature-Key` header redacted and base64 encoded documents and logos replaced with their size.
+ * @param request The request, as received by a hook.
+ */
+export const redact = (request: AxiosRequestConfig): AxiosRequestConfig => {
+  let data = request.data;
+
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      // Bodies that are not JSON cannot contain files.
+    }
+  }
+
+  return {
+    ...request,
+    headers:
+      request.headers &&
+      Object.fromEntries(
+        Object.entries(request.headers).map(([key, value]) => [
+          key,
+          SECRET_HEADERS.includes(key.toLowerCase()) ? REDACTED : value,
+        ]),
+      ),
+    data: redactFiles(data),
+  };
+};
+
+export default (client: AxiosInstance) => {
+  const requestHooks: RequestHook[] = [];
+  const responseHooks: ResponseHook[] = [];
+  const errorHooks: ErrorHook[] = [];
+
+  const register = <T>(hooks: T[], hook: T) => {
+    hooks.push(hook);
+
+    return () => {
+      const index = hooks.indexOf(hook);
+
+      if (index !== -1) {
+        hooks.splice(index, 1);
+      }
+    };
+  };
+
+  client.interceptors.request.use(async config => {
+    for (const hook of requestHooks) {
+      config = (await hook(config)) ?? config;
+    }
+
+    return config;
+  });
+
+  client.interceptors.response.use(
+    async response => {
+      for (const hook of responseHooks) {
+        response = (await hook(response)) ?? response;
+      }
+
+      return response;
+    },
+    async error => {
+      const annatureError = toAnnatureError(error);
+
+      for (const hook of errorHooks) {
+        await hook(annatureError);
+      }
+
+      throw annatureError;
+    },
+  );
+
+  return {
+    onRequest: (hook: RequestHook) => register(requestHooks, hook),
+    onResponse: (hook: ResponseHook) => register(responseHooks, hook),
+    onError: (hook: ErrorHook) => register(errorHooks, hook),
+  };
+};
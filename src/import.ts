@@ -0,0 +1,332 @@
+import { readFile } from 'fs/promises';
+import { EnvelopeCreateParams } from './envelopes';
+import { ValidationIssue } from './errors';
+import { RecipientType } from './recipients';
+import { Template, TemplateUseParams } from './templates';
+import { E164_PATTERN } from './validation';
+
+type EnvelopeRecipientParams = NonNullable<EnvelopeCreateParams['recipients']>[number];
+type TemplateRecipientParams = TemplateUseParams['recipients'][number];
+
+/** The recipient properties that can be read from a column of a recipient list. The `order` column only applies to envelope recipients. */
+export type RecipientColumn = 'name' | 'email' | 'mobile' | 'password' | 'order' | 'role' | 'message';
+
+/**
+ * A list of recipients, supplied as the contents of a CSV or JSON file, the path of a file on disk, or an array of already parsed rows. JSON files must contain an
+ * array of objects.
+ */
+export type RecipientListInput = string | Buffer | { path: string } | Record<string, unknown>[];
+
+export type RecipientImportOptions = {
+  /** The format of the list. When not supplied, it is inferred from the file extension or contents. */
+  format?: 'csv' | 'json';
+  /**
+   * The column, or JSON key, each recipient property is read from. Columns default to the name of the property, matched case-insensitively, for example a column
+   * named `Email` is used for the `email` property.
+   */
+  columns?: Partial<Record<RecipientColumn, string>>;
+};
+
+export type RecipientImportIssue = ValidationIssue & {
+  /** The 1-based number of the row, not counting the header of CSV files. */
+  row: number;
+};
+
+export type RecipientImport<T> = {
+  /** The recipients of the rows without issues, in the order they appear in the list. */
+  recipients: T[];
+  /** The issues found, each identifying the row it was found in. */
+  issues: RecipientImportIssue[];
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Australian mobile numbers start with 4 once the leading 0 or country code is removed, followed by 8 digits. */
+const AUSTRALIAN_MOBILE_PATTERN = /^(?:\+?61|0)?(4\d{8})$/;
+
+/**
+ * Normalises a mobile number to E.164 format. Australian mobile numbers, such as `0412 345 678`, `61412345678` or `412345678` when the leading 0 has been lost by a
+ * spreadsheet, are converted to `+61412345678`. Other numbers must already include their country code.
+ * @param mobile The mobile number.
+ * @returns The mobile number in E.164 format, or undefined when it cannot be normalised.
+ */
+export const normaliseMobile = (mobile: string) => {
+  const digits = mobile.replace(/[\s\-().]/g, '');
+  const australian = AUSTRALIAN_MOBILE_PATTERN.exec(digits);
+
+  if (australian) {
+    return `+61${australian[1]}`;
+  }
+
+  return E164_PATTERN.test(digits) ? digits : undefined;
+};
+
+/** Parses CSV text following RFC 4180, returning the rows as arrays of cells. */
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    rows.push([...row, cell]);
+  }
+
+  // Blank lines, including a trailing newline, are not rows.
+  return rows.filter(v => v.some(cell => cell.trim()));
+};
+
+const readRows = async (input: RecipientListInput, format?: 'csv' | 'json'): Promise<unknown[]> => {
+  if (Array.isArray(input)) {
+    return input;
+  }
+
+  const isPath = typeof input === 'object' && !Buffer.isBuffer(input);
+  const text = (isPath ? await readFile(input.path, 'utf8') : input.toString()).replace(/^\uFEFF/, '');
+  const json = format ? format === 'json' : isPath ? /\.json$/i.test(input.path) : text.trimStart().startsWith('[');
+
+  if (json) {
+    const rows = JSON.parse(text);
+
+    if (!Array.isArray(rows)) {
+      throw TypeError('JSON recipient lists must contain an array of objects');
+    }
+
+    return rows;
+  }
+
+  const [header = [], ...rows] = parseCsv(text);
+
+  return rows.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i]])));
+};
+
+/**
+ * Reads the value of each recipient property from the rows, treating empty cells as missing. Rows that are not objects, such as `null` in a JSON list, are
+ * undefined.
+ */
+const readRecipients = async (input: RecipientListInput, options: RecipientImportOptions) => {
+  const rows = await readRows(input, options.format);
+
+  return rows.map(v => {
+    if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+      return undefined;
+    }
+
+    const row = v as Record<string, unknown>;
+    const keys = Object.keys(row);
+    const value = (property: RecipientColumn) => {
+      const column = options.columns?.[property] ?? property;
+      const key = keys.find(v => v.trim().toLowerCase() === column.toLowerCase());
+      const cell = key === undefined ? undefined : row[key];
+
+      return cell === undefined || cell === null || String(cell).trim() === '' ? undefined : String(cell).trim();
+    };
+
+    return {
+      name: value('name'),
+      email: value('email'),
+      mobile: value('mobile'),
+      password: value('password'),
+      order: value('order'),
+      role: value('role'),
+      message: value('message'),
+    };
+  });
+};
+
+/** Validates the properties shared by envelope and template recipients, returning the normalised mobile number. */
+const validateContact = (
+  recipient: { email?: string; mobile?: string },
+  emails: Map<string, number>,
+  row: number,
+  issue: (path: string, message: string) => void,
+) => {
+  if (recipient.email !== undefined && !EMAIL_PATTERN.test(recipient.email)) {
+    issue('email', `${recipient.email} is not a valid email address`);
+  } else if (recipient.email !== undefined) {
+    const duplicate = emails.get(recipient.email.toLowerCase());
+
+    if (duplicate !== undefined) {
+      issue('email', `${recipient.email} is a duplicate of row ${duplicate}`);
+    } else {
+      emails.set(recipient.email.toLowerCase(), row);
+    }
+  }
+
+  if (recipient.mobile === undefined) {
+    return undefined;
+  }
+
+  const mobile = normaliseMobile(recipient.mobile);
+
+  if (!mobile) {
+    issue(
+      'mobile',
+      `${recipient.mobile} must be an Australian mobile number or in E.164 format, for example +61412345678`,
+    );
+  }
+
+  return mobile;
+};
+
+/** The issue found in a row that is not an object. */
+const rowIssue = (i: number): RecipientImportIssue => ({
+  path: `rows[${i}]`,
+  message: 'Must be an object',
+  row: i + 1,
+});
+
+/** Collects the recipients of rows without issues. Rows without a recipient always have an issue. */
+const collect = <T>(rows: { recipient?: T; issues: RecipientImportIssue[] }[]): RecipientImport<T> => ({
+  recipients: rows.filter(v => !v.issues.length).map(v => v.recipient as T),
+  issues: rows.flatMap(v => v.issues),
+});
+
+/**
+ * Parses a CSV or JSON list of recipients into the recipients of an envelope, validating each row before anything is sent.
+ *
+ * The `role` column holds the recipient type, one of `signer`, `viewer` or `carbon-copy`, defaulting to `signer`. Mobile numbers are normalised to E.164 format and
+ * email addresses must be unique within the list.
+ * @param input The list of recipients.
+ * @example
+ * const { recipients, issues } = await parseEnvelopeRecipients({ path: 'recipients.csv' }, { columns: { email: 'Email Address' } });
+ */
+export const parseEnvelopeRecipients = async (
+  input: RecipientListInput,
+  options: RecipientImportOptions = {},
+): Promise<RecipientImport<EnvelopeRecipientParams>> => {
+  const emails = new Map<string, number>();
+  const types = Object.values(RecipientType) as string[];
+
+  return collect(
+    (await readRecipients(input, options)).map((values, i) => {
+      if (!values) {
+        return { issues: [rowIssue(i)] };
+      }
+
+      const issues: RecipientImportIssue[] = [];
+      const issue = (path: string, message: string) => issues.push({ path: `rows[${i}].${path}`, message, row: i + 1 });
+      const order = values.order === undefined ? undefined : Number(values.order);
+      const type = values.role?.toLowerCase() ?? RecipientType.Signer;
+
+      if (!values.name) {
+        issue('name', 'Is required');
+      }
+
+      if (!values.email) {
+        issue('email', 'Is required');
+      }
+
+      if (order !== undefined && !(Number.isInteger(order) && order > 0)) {
+        issue('order', `${values.order} must be a positive whole number`);
+      }
+
+      if (!types.includes(type)) {
+        issue('role', `${values.role} must be one of ${types.join(', ')}`);
+      }
+
+      const mobile = validateContact(values, emails, i + 1, issue);
+
+      return {
+        recipient: {
+          name: values.name as string,
+          email: values.email as string,
+          mobile,
+          password: values.password,
+          message: values.message,
+          order,
+          type: type as RecipientType,
+        },
+        issues,
+      };
+    }),
+  );
+};
+
+/**
+ * Parses a CSV or JSON list of recipients into the recipients for using a template, validating each row before anything is sent.
+ *
+ * The `role` column holds the role the recipient inherits. When the template is supplied, roles can be given by id or by name, and the name and email address are only
+ * required when the role does not have a default. Mobile numbers are normalised to E.164 format and email addresses must be unique within the list.
+ * @param input The list of recipients.
+ * @param template The template being used, used to resolve role names and defaults.
+ */
+export const parseTemplateRecipients = async (
+  input: RecipientListInput,
+  options: RecipientImportOptions & { template?: Template } = {},
+): Promise<RecipientImport<TemplateRecipientParams>> => {
+  const emails = new Map<string, number>();
+  const { template } = options;
+
+  return collect(
+    (await readRecipients(input, options)).map((values, i) => {
+      if (!values) {
+        return { issues: [rowIssue(i)] };
+      }
+
+      const issues: RecipientImportIssue[] = [];
+      const issue = (path: string, message: string) => issues.push({ path: `rows[${i}].${path}`, message, row: i + 1 });
+      const role = template?.roles.find(
+        v => v.id === values.role || v.name.toLowerCase() === values.role?.toLowerCase(),
+      );
+
+      if (!values.role) {
+        issue('role', 'Is required');
+      } else if (template && !role) {
+        issue('role', `${values.role} is not the id or name of one of the template's roles`);
+      }
+
+      if (role && !values.name && !role.recipientName) {
+        issue('name', 'Is required as the role does not have a default recipient name');
+      }
+
+      if (role && !values.email && !role.recipientEmail) {
+        issue('email', 'Is required as the role does not have a default recipient email');
+      }
+
+      const mobile = validateContact(values, emails, i + 1, issue);
+
+      return {
+        recipient: {
+          roleId: role?.id ?? (values.role as string),
+          name: values.name,
+          email: values.email,
+          mobile,
+          password: values.password,
+          message: values.message,
+        },
+        issues,
+      };
+    }),
+  );
+};
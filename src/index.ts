@@ -1 +1,28 @@
-export { Annature } from './client';
+export { Annature, AnnatureOptions, Credentials } from './client';
+export {
+  AnnatureEventErrorListener,
+  AnnatureEventListener,
+  AnnatureEventName,
+  AnnatureEvents,
+  AnnatureWatchParams,
+  EnvelopeTransition,
+  RecipientTransition,
+} from './events';
+export { ErrorHook, redact, RequestHook, ResponseHook } from './hooks';
+export { defaultRetryPolicy, RetryPolicy } from './retry';
+export { RequestOptions } from './utils';
+export * from './webhooks';
+export * from './errors';
+export * from './envelopes';
+export * from './recipients';
+export * from './documents';
+export { FileInput } from './files';
+export * from './import';
+export { collect } from './pagination';
+export * from './builder';
+export * from './archive';
+export * from './sync';
+export { MockAnnature, MockAnnatureOptions, MockTemplateParams, MockWebhookDelivery } from './mock';
+export * from './fields';
+export * from './templates';
+export { BulkUseOptions, BulkUseReport, BulkUseRowResult } from './bulk';
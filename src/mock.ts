@@ -0,0 +1,1107 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse } from 'axios';
+import { randomBytes, randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { Account, Role } from './accounts';
+import { Annature, AnnatureOptions, Credentials } from './client';
+import { Document } from './documents';
+import { Endpoint } from './endpoints';
+import { Envelope, EnvelopeCreateParams, EnvelopeStatus, EnvelopeUpdateParams } from './envelopes';
+import { Field, FieldCreateParams, FieldDateFormat, FieldType } from './fields';
+import { Group } from './groups';
+import { Organisation } from './organisations';
+import {
+  Recipient,
+  RecipientCreateParams,
+  RecipientDraftUpdateParams,
+  RecipientStatus,
+  RecipientType,
+  RecipientUpdateParams,
+} from './recipients';
+import { Template, TemplateRole, TemplateUseParams } from './templates';
+import { camelCase, isoStringifyDates, snakeCase } from './utils';
+import { validateEnvelopeCreateParams, validateEnvelopeUpdateParams, validateTemplateUseParams } from './validation';
+import { computeSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER, WebhookEvent, WebhookEventType } from './webhooks';
+
+export type MockAnnatureOptions = {
+  /** The credentials requests must be made with. Defaults to randomly generated credentials, available as `mock.credentials`. */
+  credentials?: Credentials;
+  /** The base URL of the mock API when used as an axios adapter. Replaced by the server's URL once `listen` is called. */
+  baseURL?: string;
+  /** Whether to deliver webhooks to the URLs of active endpoints. Defaults to true. Events are recorded in `mock.events` either way. */
+  deliverWebhooks?: boolean;
+};
+
+export type MockTemplateParams = Partial<Omit<Template, 'id' | 'created' | 'documents' | 'roles'>> & {
+  name: string;
+  /** The PDF documents of the template. */
+  documents: { id?: string; name?: string; base: Buffer }[];
+  /** The roles of the template, each inheriting the fields supplied. */
+  roles: (Omit<TemplateRole, 'id' | 'fields'> & { id?: string; fields?: FieldCreateParams[] })[];
+};
+
+export type MockWebhookDelivery = {
+  /** The unique identifier of the endpoint the event was delivered to. */
+  endpointId: string;
+  event: WebhookEvent;
+  /** The status code of the endpoint's response, if one was received. */
+  status?: number;
+  /** The error thrown when no response was received. */
+  error?: Error;
+};
+
+type MockRequest = {
+  method: string;
+  /** The path of the request, relative to the base URL. */
+  path: string;
+  query: { [key: string]: string };
+  headers: { [key: string]: string | undefined };
+  body: any;
+};
+
+type MockResponse = {
+  status: number;
+  body?: unknown;
+  /** The contents of a downloaded file. */
+  file?: Buffer;
+};
+
+type Route = [method: string, pattern: RegExp, handler: (request: MockRequest, ...params: string[]) => MockResponse];
+
+type StoredField = Field & { recipientId: string };
+
+type EnvelopeDocumentParams = { id?: string; name?: string; data: Buffer };
+
+/** The limits the API applies to list endpoints. */
+const LIST_LIMITS = { envelopes: 1000, groups: 1000, templates: 250 };
+
+const DEFAULT_BASE_URL = 'https://api.annature.mock/v1/';
+
+/** A minimal PDF used as the certificate of completion. */
+const CERTIFICATE = Buffer.from('%PDF-1.4\n% Certificate of completion\n%%EOF\n');
+
+class MockError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const id = () => randomUUID().replace(/-/g, '');
+
+const ok = (body?: unknown): MockResponse => ({ status: body === undefined ? 204 : 200, body });
+
+/** Keeps only the properties an endpoint accepts, so that a request cannot overwrite read-only properties such as `id` or `created`. */
+const pick = <T extends object, K extends keyof T>(params: T, keys: K[]) =>
+  Object.fromEntries(Object.entries(params ?? {}).filter(([key]) => keys.includes(key as K))) as Pick<T, K>;
+
+const RECIPIENT_UPDATE_KEYS: (keyof RecipientUpdateParams)[] = ['name', 'email', 'mobile'];
+
+const RECIPIENT_DRAFT_UPDATE_KEYS: (keyof RecipientDraftUpdateParams)[] = [
+  ...RECIPIENT_UPDATE_KEYS,
+  'type',
+  'message',
+  'password',
+  'muted',
+  'order',
+  'redirects',
+];
+
+/** Applies the exact-match and date filters of a list endpoint, returning the most recent results first. */
+const filter = <T extends { created: Date }>(
+  items: Iterable<T>,
+  query: { [key: string]: string },
+  exact: (keyof T & string)[],
+  limit = Infinity,
+) =>
+  [...items]
+    .filter(v => exact.every(key => query[key] === undefined || String(v[key]) === query[key]))
+    .filter(v => !query.createdBefore || v.created < new Date(query.createdBefore))
+    .filter(v => !query.createdAfter || v.created > new Date(query.createdAfter))
+    .sort((a, b) => b.created.getTime() - a.created.getTime())
+    .slice(0, limit);
+
+/** Counts the pages of a PDF by its page objects, assuming at least one page. */
+const countPages = (data: Buffer) => Math.max(1, data.toString('latin1').match(/\/Type\s*\/Page\b/g)?.length ?? 0);
+
+/**
+ * An in-memory fake of the Annature API for testing integrations offline. It implements the routes used by this library, moves envelopes and recipients through
+ * their statuses as the real API does, and delivers signed webhooks to the URLs of active endpoints.
+ *
+ * Use `client()` to create an `Annature` client that sends requests to the fake through an axios adapter, or `listen()` to serve the fake over HTTP, for example to
+ * use it from another process. Recipients are simulated signing, declining or failing with `sign`, `decline` and `fail`.
+ *
+ * @example
+ * const mock = new MockAnnature();
+ * const annature = mock.client();
+ * const envelope = await annature.envelopes.create({ ...params, accountId: mock.account.id });
+ *
+ * mock.sign(envelope.recipients[0].id);
+ * await mock.flush();
+ */
+export class MockAnnature {
+  readonly credentials: Credentials;
+  /** The administrator account of the organisation, used as the sender of envelopes. */
+  readonly account: Account;
+  /** Every webhook event emitted, in the order they occurred. */
+  readonly events: WebhookEvent[] = [];
+  /** Every webhook delivery attempted, in the order they completed. */
+  readonly deliveries: MockWebhookDelivery[] = [];
+  private baseURL: string;
+  private server?: Server;
+  private organisation: Organisation;
+  private readonly deliverWebhooks: boolean;
+  private readonly pending = new Set<Promise<void>>();
+  private readonly accounts = new Map<string, Account & { active: boolean }>();
+  private readonly groups = new Map<string, Group>();
+  private readonly endpoints = new Map<string, Endpoint>();
+  private readonly envelopes = new Map<string, Envelope>();
+  private readonly documents = new Map<string, Document[]>();
+  private readonly fields = new Map<string, StoredField[]>();
+  private readonly templates = new Map<string, Template>();
+  private readonly files = new Map<string, Buffer>();
+  private readonly idempotentResponses = new Map<string, MockResponse>();
+  private readonly routes: Route[] = [
+    ['GET', /^accounts$/, ({ query }) => ok(this.listAccounts(query))],
+    ['POST', /^accounts$/, ({ body }) => ok(this.createAccount(body))],
+    ['POST', /^accounts\/register$/, ({ body }) => ok(this.createAccount({ ...body, role: Role.Administrator }))],
+    ['GET', /^accounts\/([^/]+)$/, (_, id) => ok(this.findAccount(id))],
+    ['POST', /^accounts\/([^/]+)\/verification$/, (_, id) => this.resendVerification(id)],
+    ['POST', /^accounts\/([^/]+)\/deactivate$/, (_, id) => this.setAccountActive(id, false)],
+    ['POST', /^accounts\/([^/]+)\/restore$/, (_, id) => this.setAccountActive(id, true)],
+    [
+      'GET',
+      /^groups$/,
+      ({ query }) => ok(filter(this.groups.values(), query, ['name', 'business', 'email'], LIST_LIMITS.groups)),
+    ],
+    ['POST', /^groups$/, ({ body }) => ok(this.createGroup(body))],
+    ['GET', /^groups\/([^/]+)$/, (_, id) => ok(this.find(this.groups, id, 'Group'))],
+    ['DELETE', /^groups\/([^/]+)$/, (_, id) => this.deleteGroup(id)],
+    ['GET', /^organisations$/, () => ok(this.organisation)],
+    ['PUT', /^organisations$/, ({ body }) => ok(this.updateOrganisation(body))],
+    ['GET', /^endpoints$/, () => ok([...this.endpoints.values()])],
+    ['POST', /^endpoints$/, ({ body }) => ok(this.createEndpoint(body))],
+    ['GET', /^endpoints\/([^/]+)$/, (_, id) => ok(this.find(this.endpoints, id, 'Endpoint'))],
+    [
+      'PUT',
+      /^endpoints\/([^/]+)$/,
+      ({ body }, id) =>
+        ok(Object.assign(this.find(this.endpoints, id, 'Endpoint'), pick<Endpoint, 'active'>(body, ['active']))),
+    ],
+    ['DELETE', /^endpoints\/([^/]+)$/, (_, id) => ok(this.deleteEndpoint(id))],
+    ['GET', /^envelopes$/, ({ query }) => ok(this.listEnvelopes(query))],
+    ['POST', /^envelopes$/, ({ body }) => ok(this.createEnvelopeFromParams(body))],
+    ['GET', /^envelopes\/([^/]+)$/, (_, id) => ok(this.present(this.findEnvelope(id)))],
+    ['POST', /^envelopes\/([^/]+)\/send$/, (_, id) => this.sendEnvelope(id)],
+    ['POST', /^envelopes\/([^/]+)\/void$/, (_, id) => this.voidEnvelope(id)],
+    ['PUT', /^envelopes\/([^/]+)$/, ({ body }, id) => ok(this.updateEnvelope(id, body))],
+    ['DELETE', /^envelopes\/([^/]+)$/, (_, id) => this.deleteEnvelope(id)],
+    ['POST', /^envelopes\/([^/]+)\/recipients$/, ({ body }, id) => ok(this.addRecipient(id, body))],
+    ['GET', /^recipients\/([^/]+)$/, (_, id) => ok(this.findRecipient(id).recipient)],
+    ['PUT', /^recipients\/([^/]+)$/, ({ body }, id) => ok(this.updateRecipient(id, body))],
+    ['DELETE', /^recipients\/([^/]+)$/, (_, id) => this.removeRecipient(id)],
+    ['GET', /^recipients\/([^/]+)\/token$/, ({ query }, id) => ok(this.recipientToken(id, query))],
+    ['POST', /^recipients\/([^/]+)\/resend-(email|sms)$/, (_, id, channel) => ok(this.resend(id, channel))],
+    ['GET', /^fields$/, ({ query }) => ok(this.envelopeFields(query.envelopeId))],
+    ['GET', /^fields\/([^/]+)$/, ({ query }, id) => ok(this.findField(query.envelopeId, id))],
+    ['POST', /^fields\/([^/]+)\/attachments$/, () => ok([])],
+    ['GET', /^documents$/, ({ query }) => ok(this.envelopeDocuments(query.envelopeId))],
+    ['GET', /^documents\/([^/]+)$/, ({ query }, id) => ok(this.findDocument(query.envelopeId, id))],
+    ['GET', /^templates$/, ({ query }) => ok(filter(this.templates.values(), query, ['name'], LIST_LIMITS.templates))],
+    ['POST', /^templates\/([^/]+)\/use$/, ({ body }, id) => ok(this.useTemplate(id, body))],
+  ];
+
+  constructor(options: MockAnnatureOptions = {}) {
+    const now = new Date();
+    const groupId = id();
+
+    this.credentials = options.credentials ?? { id: id(), key: randomBytes(24).toString('hex') };
+    this.baseURL = options.baseURL ?? DEFAULT_BASE_URL;
+    this.deliverWebhooks = options.deliverWebhooks ?? true;
+    this.organisation = {
+      id: id(),
+      name: 'Mock Organisation',
+      email: 'admin@example.com',
+      number: '+61712345678',
+      address: '1 Example Street, Brisbane QLD 4000',
+      website: 'https://example.com',
+      logo: '',
+      colour: '#000000',
+      created: now,
+    };
+    this.groups.set(groupId, { id: groupId, name: 'Default', created: now });
+    this.account = {
+      id: id(),
+      name: 'Mock Administrator',
+      email: 'admin@example.com',
+      number: '+61712345678',
+      timezone: '+10:00',
+      role: Role.Administrator,
+      created: now,
+      verified: now,
+      groupId,
+    };
+    this.accounts.set(this.account.id, { ...this.account, active: true });
+  }
+
+  /** Handles requests made by axios, returning the mock API's responses. */
+  readonly adapter: AxiosAdapter = async config => {
+    const url = new URL(config.url ?? '', config.baseURL ?? this.baseURL);
+    const headers = Object.fromEntries(
+      Object.entries(config.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value?.toString()]),
+    );
+    const response = await this.handle(url, {
+      method: config.method?.toUpperCase() ?? 'GET',
+      // Parameters that are undefined or null are left out of the query string, as axios does when sending a request.
+      query: Object.fromEntries(
+        Object.entries(config.params ?? {})
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(([key, value]) => [key, String(value)]),
+      ),
+      headers,
+      body: typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data,
+    });
+    const res: AxiosResponse = {
+      status: response.status,
+      statusText: String(response.status),
+      headers: { 'content-type': response.file ? 'application/pdf' : 'application/json' },
+      config,
+      data: response.file
+        ? config.responseType === 'stream'
+          ? Readable.from([response.file])
+          : response.file
+        : JSON.stringify(response.body ?? ''),
+    };
+
+    if (config.validateStatus && !config.validateStatus(res.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${res.status}`,
+        res.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        res,
+      );
+    }
+
+    return res;
+  };
+
+  /**
+   * Creates a client that sends requests to the mock.
+   * @param options Options for the client. The base URL and adapter are set by the mock.
+   */
+  client(options: AnnatureOptions = {}) {
+    return new Annature(this.credentials, {
+      ...options,
+      baseURL: this.baseURL,
+      adapter: this.server ? undefined : this.adapter,
+    });
+  }
+
+  /**
+   * Serves the mock over HTTP.
+   * @param port The port to listen on. Defaults to a random free port.
+   * @returns The base URL of the mock API, to be supplied as the `baseURL` option of a client.
+   */
+  async listen(port = 0) {
+    const server = createServer(async (req, res) => {
+      let response: MockResponse;
+
+      // Errors are returned as responses, as a rejection here would be unhandled and end the test process.
+      try {
+        const url = new URL(req.url ?? '', `http://${req.headers.host}`);
+        const body = await MockAnnature.readBody(req);
+        let parsed: unknown;
+
+        try {
+          parsed = body.length ? JSON.parse(body.toString()) : undefined;
+        } catch {
+          throw new MockError(400, 'The request body is not valid JSON');
+        }
+
+        response = await this.handle(url, {
+          method: req.method ?? 'GET',
+          query: Object.fromEntries(url.searchParams),
+          headers: Object.fromEntries(Object.entries(req.headers).map(([key, value]) => [key, value?.toString()])),
+          body: parsed,
+        });
+      } catch (error: any) {
+        response = {
+          status: error instanceof MockError ? error.status : 500,
+          body: { message: error?.message ?? String(error) },
+        };
+      }
+
+      res.statusCode = response.status;
+      res.setHeader('Content-Type', response.file ? 'application/pdf' : 'application/json');
+      res.end(response.file ?? (response.body === undefined ? undefined : JSON.stringify(response.body)));
+    });
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    this.server = server;
+    this.baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+
+    return this.baseURL;
+  }
+
+  /** Stops serving the mock over HTTP. */
+  async close() {
+    const server = this.server;
+
+    if (server) {
+      this.server = undefined;
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  /** Waits for every webhook delivery in progress to complete. */
+  async flush() {
+    while (this.pending.size) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Adds a template that can be listed and used.
+   * @param params The template, with its documents supplied as Buffers.
+   */
+  addTemplate(params: MockTemplateParams): Template {
+    const templateId = id();
+    const created = new Date();
+    const template: Template = {
+      shared: false,
+      envelopeName: params.name,
+      envelopeShared: false,
+      accountId: this.account.id,
+      groupId: this.account.groupId,
+      ...params,
+      id: templateId,
+      created,
+      documents: params.documents.map(v =>
+        this.storeDocument(`templates/${templateId}`, v.id, v.name, v.base, created),
+      ),
+      roles: params.roles.map(role => ({
+        ...role,
+        id: role.id ?? id(),
+        fields: (role.fields ?? []).map(v => MockAnnature.createField(v, created)),
+      })),
+    };
+
+    this.templates.set(templateId, template);
+
+    return template;
+  }
+
+  /**
+   * Simulates a recipient completing the envelope, filling in their fields. Once every signer and viewer has completed the envelope, it is completed.
+   * @param recipientId The unique identifier of the recipient.
+   * @param values The values of input and dropdown fields, or whether checkbox fields are checked, by field id.
+   */
+  sign(recipientId: string, values: { [fieldId: string]: string | boolean } = {}) {
+    const { envelope, recipient } = this.findRecipient(recipientId);
+
+    if (recipient.status !== RecipientStatus.Send) {
+      throw Error(`Recipient ${recipientId} cannot sign as their status is ${recipient.status}`);
+    }
+
+    for (const field of this.fields.get(envelope.id) ?? []) {
+      const value = values[field.id];
+
+      if (field.recipientId !== recipientId || value === undefined) {
+        continue;
+      }
+
+      if (field.type === FieldType.Checkbox) {
+        field.checked = value === true;
+      } else if (field.type === FieldType.Input || field.type === FieldType.Dropdown) {
+        field.value = String(value);
+      }
+    }
+
+    recipient.status = RecipientStatus.Completed;
+    recipient.completed = new Date();
+    this.emit(WebhookEventType.RecipientCompleted, { ...recipient, envelopeId: envelope.id });
+    this.advance(envelope);
+
+    return recipient;
+  }
+
+  /**
+   * Simulates a recipient declining to sign the envelope.
+   * @param recipientId The unique identifier of the recipient.
+   * @param reason The reason entered by the recipient.
+   */
+  decline(recipientId: string, reason = 'Declined') {
+    const { envelope, recipient } = this.findRecipient(recipientId);
+
+    if (recipient.status !== RecipientStatus.Send) {
+      throw Error(`Recipient ${recipientId} cannot decline as their status is ${recipient.status}`);
+    }
+
+    recipient.status = RecipientStatus.Declined;
+    recipient.declined = envelope.declined = new Date();
+    recipient.declinedReason = reason;
+    this.emit(WebhookEventType.RecipientDeclined, { ...recipient, envelopeId: envelope.id });
+    this.emit(WebhookEventType.EnvelopeDeclined, this.present(envelope));
+
+    return recipient;
+  }
+
+  /**
+   * Simulates correspondence to a recipient failing to be delivered, for example when their email address does not exist.
+   * @param recipientId The unique identifier of the recipient.
+   */
+  fail(recipientId: string) {
+    const { envelope, recipient } = this.findRecipient(recipientId);
+
+    recipient.status = RecipientStatus.Failed;
+    this.emit(WebhookEventType.RecipientFailed, { ...recipient, envelopeId: envelope.id });
+
+    return recipient;
+  }
+
+  private static async readBody(req: IncomingMessage) {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private static createRecipient(params: RecipientCreateParams, created: Date): Recipient {
+    const type = params.type ?? RecipientType.Signer;
+
+    return {
+      ...params,
+      id: id(),
+      type,
+      status: type === RecipientType.CarbonCopy ? undefined : RecipientStatus.Created,
+      muted: params.muted ?? false,
+      created,
+    };
+  }
+
+  private static createField(params: FieldCreateParams, created: Date): Field {
+    return {
+      required: true,
+      readOnly: false,
+      collaborative: false,
+      ...(params.type === FieldType.Checkbox && { checked: false }),
+      ...(params.type === FieldType.Date && { dateFormat: FieldDateFormat.DayMonthYear }),
+      ...params,
+      id: params.id ?? id(),
+      created,
+    } as Field;
+  }
+
+  private async handle(url: URL, request: Omit<MockRequest, 'path'>): Promise<MockResponse> {
+    const base = new URL(this.baseURL).pathname;
+    const path = url.pathname.startsWith(base) ? url.pathname.slice(base.length) : url.pathname.replace(/^\//, '');
+    const query = camelCase<{ [key: string]: string }>({ ...Object.fromEntries(url.searchParams), ...request.query });
+    const idempotencyKey = request.headers['idempotency-key'];
+    const cacheKey = idempotencyKey && `${request.method} ${path} ${idempotencyKey}`;
+
+    // Files are downloaded from temporary endpoints that do not require credentials.
+    if (request.method === 'GET' && path.startsWith('files/')) {
+      const file = this.files.get(decodeURIComponent(path.slice('files/'.length)));
+
+      return file ? { status: 200, file } : { status: 403, body: { message: 'Forbidden' } };
+    }
+
+    if (
+      request.headers['x-annature-id'] !== this.credentials.id ||
+      request.headers['x-annature-key'] !== this.credentials.key
+    ) {
+      return { status: 401, body: { message: 'Unauthorised' } };
+    }
+
+    if (cacheKey && this.idempotentResponses.has(cacheKey)) {
+      return this.idempotentResponses.get(cacheKey)!;
+    }
+
+    let response: MockResponse = { status: 404, body: { message: `Route ${request.method} ${path} not found` } };
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = method === request.method && pattern.exec(path);
+
+      if (match) {
+        try {
+          response = handler({ ...request, path, query, body: camelCase(request.body) }, ...match.slice(1));
+        } catch (error: any) {
+          if (!(error instanceof MockError)) {
+            throw error;
+          }
+
+          response = { status: error.status, body: { message: error.message } };
+        }
+
+        break;
+      }
+    }
+
+    response = {
+      ...response,
+      body: response.body === undefined ? undefined : snakeCase(isoStringifyDates(response.body as object)),
+    };
+
+    if (cacheKey && request.method === 'POST' && response.status < 500) {
+      this.idempotentResponses.set(cacheKey, response);
+    }
+
+    return response;
+  }
+
+  private find<T>(items: Map<string, T>, itemId: string, name: string) {
+    const item = items.get(itemId);
+
+    if (!item) {
+      throw new MockError(404, `${name} ${itemId} does not exist`);
+    }
+
+    return item;
+  }
+
+  private fileUrl(key: string) {
+    return new URL(`files/${encodeURIComponent(key)}`, this.baseURL).toString();
+  }
+
+  /** Stores a document, recording the key of its file as the `original` property until it is presented. */
+  private storeDocument(prefix: string, documentId = id(), name = `${id()}.pdf`, data: Buffer, created: Date) {
+    const document: Document = {
+      id: documentId,
+      name,
+      pages: countPages(data),
+      original: `${prefix}/documents/${documentId}/original`,
+      created,
+    };
+
+    this.files.set(document.original, data);
+
+    return document;
+  }
+
+  private listAccounts(query: { [key: string]: string }) {
+    return filter(this.accounts.values(), query, ['name', 'email', 'role', 'groupId', 'active']);
+  }
+
+  private findAccount(accountId: string) {
+    return this.find(this.accounts, accountId, 'Account');
+  }
+
+  private resendVerification(accountId: string) {
+    if (this.findAccount(accountId).verified) {
+      throw new MockError(400, 'The account has already been verified');
+    }
+
+    return ok();
+  }
+
+  private setAccountActive(accountId: string, active: boolean) {
+    this.findAccount(accountId).active = active;
+
+    return ok();
+  }
+
+  private createAccount(params: Partial<Account>) {
+    if (!params.name || !params.email) {
+      throw new MockError(400, 'The name and email fields are required');
+    }
+
+    if ([...this.accounts.values()].some(v => v.email === params.email)) {
+      throw new MockError(400, `An account with the email ${params.email} already exists`);
+    }
+
+    // Accounts are not verified until the account holder actions their verification email.
+    const account = {
+      number: '',
+      timezone: '+10:00',
+      role: Role.Standard,
+      groupId: this.account.groupId,
+      ...params,
+      id: id(),
+      created: new Date(),
+    } as Account;
+
+    this.accounts.set(account.id, { ...account, active: true });
+
+    return account;
+  }
+
+  private createGroup(params: Partial<Group>) {
+    if (!params.name) {
+      throw new MockError(400, 'The name field is required');
+    }
+
+    const group: Group = { ...params, id: id(), name: params.name, created: new Date() };
+
+    if (params.logo) {
+      this.files.set(`groups/${group.id}/logo`, Buffer.from(params.logo, 'base64'));
+      group.logo = this.fileUrl(`groups/${group.id}/logo`);
+    }
+
+    this.groups.set(group.id, group);
+
+    return group;
+  }
+
+  private deleteGroup(groupId: string) {
+    this.find(this.groups, groupId, 'Group');
+    this.groups.delete(groupId);
+
+    return ok();
+  }
+
+  private updateOrganisation(params: Partial<Organisation>) {
+    this.organisation = {
+      ...this.organisation,
+      ...params,
+      id: this.organisation.id,
+      created: this.organisation.created,
+    };
+
+    if (params.logo) {
+      this.files.set('organisation/logo', Buffer.from(params.logo, 'base64'));
+      this.organisation.logo = this.fileUrl('organisation/logo');
+    }
+
+    return this.organisation;
+  }
+
+  private createEndpoint(params: Partial<Endpoint>) {
+    if (!params.url || !/^https?:\/\//.test(params.url)) {
+      throw new MockError(400, 'The url field must be a URL');
+    }
+
+    const endpoint: Endpoint = {
+      id: id(),
+      url: params.url,
+      signature: randomBytes(32).toString('hex'),
+      active: true,
+      created: new Date(),
+    };
+
+    this.endpoints.set(endpoint.id, endpoint);
+
+    return endpoint;
+  }
+
+  private deleteEndpoint(endpointId: string) {
+    const endpoint = this.find(this.endpoints, endpointId, 'Endpoint');
+
+    this.endpoints.delete(endpointId);
+
+    return endpoint;
+  }
+
+  private findEnvelope(envelopeId: string) {
+    return this.find(this.envelopes, envelopeId, 'Envelope');
+  }
+
+  /** Adds the temporary endpoints for downloading the envelope's files. */
+  private present(envelope: Envelope): Envelope {
+    return {
+      ...envelope,
+      original: this.fileUrl(`envelopes/${envelope.id}/original`),
+      master: envelope.status === EnvelopeStatus.Created ? undefined : this.fileUrl(`envelopes/${envelope.id}/master`),
+      certificate:
+        envelope.status === EnvelopeStatus.Completed ? this.fileUrl(`envelopes/${envelope.id}/certificate`) : undefined,
+    };
+  }
+
+  private listEnvelopes(query: { [key: string]: string }) {
+    return filter(this.envelopes.values(), query, ['name', 'status'])
+      .filter(v => query.status || v.status !== EnvelopeStatus.Draft)
+      .filter(
+        v => !query.recipient || v.recipients.some(r => r.name === query.recipient || r.email === query.recipient),
+      )
+      .filter(v => !query.completedBefore || (v.completed && v.completed < new Date(query.completedBefore)))
+      .filter(v => !query.completedAfter || (v.completed && v.completed > new Date(query.completedAfter)))
+      .slice(0, LIST_LIMITS.envelopes)
+      .map(v => this.present(v));
+  }
+
+  private createEnvelopeFromParams(params: EnvelopeCreateParams) {
+    const issues = validateEnvelopeCreateParams(params);
+
+    if (issues.length) {
+      throw new MockError(400, issues.map(v => `${v.path}: ${v.message}`).join(', '));
+    }
+
+    return this.createEnvelope(
+      params,
+      params.documents.map(v => ({ id: v.id, name: v.name, data: Buffer.from(v.base as string, 'base64') })),
+    );
+  }
+
+  private createEnvelope(params: Omit<EnvelopeCreateParams, 'documents'>, documents: EnvelopeDocumentParams[]) {
+    const account = this.findAccount(params.accountId);
+
+    if (!account.active) {
+      throw new MockError(400, `Account ${params.accountId} has been deactivated`);
+    }
+
+    const created = new Date();
+    const envelope: Envelope = {
+      id: id(),
+      name: params.name,
+      message: params.message,
+      status: params.draft ? EnvelopeStatus.Draft : EnvelopeStatus.Created,
+      shared: params.shared ?? false,
+      created,
+      accountId: account.id,
+      groupId: params.groupId ?? account.groupId,
+      metadata: params.metadata ?? {},
+      recipients: [],
+    };
+    const fields: StoredField[] = [];
+
+    for (const { fields: recipientFields, ...recipientParams } of params.recipients ?? []) {
+      const recipient = MockAnnature.createRecipient(recipientParams, created);
+
+      envelope.recipients.push(recipient);
+      fields.push(
+        ...(recipientFields ?? []).map(v => ({ ...MockAnnature.createField(v, created), recipientId: recipient.id })),
+      );
+    }
+
+    const stored = documents.map(v => this.storeDocument(`envelopes/${envelope.id}`, v.id, v.name, v.data, created));
+
+    this.envelopes.set(envelope.id, envelope);
+    this.documents.set(envelope.id, stored);
+    this.fields.set(envelope.id, fields);
+    // The mock does not stamp fields onto documents, so the master copy is the first document as supplied.
+    this.files.set(`envelopes/${envelope.id}/original`, documents[0].data);
+    this.files.set(`envelopes/${envelope.id}/master`, documents[0].data);
+
+    if (!params.draft) {
+      this.send(envelope);
+    }
+
+    return this.present(envelope);
+  }
+
+  private send(envelope: Envelope) {
+    envelope.status = EnvelopeStatus.Sent;
+    envelope.sent = new Date();
+    this.emit(WebhookEventType.EnvelopeSent, this.present(envelope));
+    this.advance(envelope);
+  }
+
+  /** Sends the envelope to the recipients next in the signing order, or completes it once every signer and viewer has completed it. */
+  private advance(envelope: Envelope) {
+    const outstanding = envelope.recipients.filter(
+      v => v.type !== RecipientType.CarbonCopy && v.status !== RecipientStatus.Completed,
+    );
+
+    if (!outstanding.length) {
+      envelope.status = EnvelopeStatus.Completed;
+      envelope.completed = new Date();
+      this.files.set(`envelopes/${envelope.id}/certificate`, CERTIFICATE);
+      this.emit(WebhookEventType.EnvelopeCompleted, this.present(envelope));
+
+      return;
+    }
+
+    const next = Math.min(...outstanding.map(v => v.order ?? 0));
+
+    for (const recipient of outstanding) {
+      if (recipient.status !== RecipientStatus.Created && recipient.status !== RecipientStatus.Pending) {
+        continue;
+      }
+
+      if ((recipient.order ?? 0) === next) {
+        recipient.status = RecipientStatus.Send;
+        recipient.sent = recipient.muted ? undefined : new Date();
+        this.emit(WebhookEventType.RecipientSent, { ...recipient, envelopeId: envelope.id });
+      } else {
+        recipient.status = RecipientStatus.Pending;
+      }
+    }
+  }
+
+  private sendEnvelope(envelopeId: string) {
+    const envelope = this.findEnvelope(envelopeId);
+
+    if (envelope.status !== EnvelopeStatus.Draft) {
+      throw new MockError(400, 'Only draft envelopes can be sent');
+    }
+
+    if (!envelope.recipients.some(v => v.type === RecipientType.Signer)) {
+      throw new MockError(400, 'The envelope must contain at least one recipient with a type of signer');
+    }
+
+    this.send(envelope);
+
+    return ok();
+  }
+
+  private voidEnvelope(envelopeId: string) {
+    const envelope = this.findEnvelope(envelopeId);
+
+    if (envelope.status !== EnvelopeStatus.Sent) {
+      throw new MockError(400, 'Only sent envelopes can be voided');
+    }
+
+    envelope.status = EnvelopeStatus.Voided;
+    envelope.voided = new Date();
+    this.emit(WebhookEventType.EnvelopeVoided, this.present(envelope));
+
+    return ok();
+  }
+
+  private updateEnvelope(envelopeId: string, params: EnvelopeUpdateParams) {
+    const envelope = this.findEnvelope(envelopeId);
+    const issues = validateEnvelopeUpdateParams(envelope.status, params);
+
+    if (issues.length) {
+      throw new MockError(400, issues.map(v => (v.path ? `${v.path}: ${v.message}` : v.message)).join(', '));
+    }
+
+    if (params.groupId !== undefined) {
+      this.find(this.groups, params.groupId, 'Group');
+    }
+
+    Object.assign(envelope, pick(params, ['name', 'message', 'shared', 'groupId', 'metadata']));
+
+    return this.present(envelope);
+  }
+
+  private deleteEnvelope(envelopeId: string) {
+    if (this.findEnvelope(envelopeId).status !== EnvelopeStatus.Draft) {
+      throw new MockError(400, 'Only draft envelopes can be deleted');
+    }
+
+    this.envelopes.delete(envelopeId);
+    this.documents.delete(envelopeId);
+    this.fields.delete(envelopeId);
+
+    return ok();
+  }
+
+  private findRecipient(recipientId: string) {
+    for (const envelope of this.envelopes.values()) {
+      const recipient = envelope.recipients.find(v => v.id === recipientId);
+
+      if (recipient) {
+        return { envelope, recipient };
+      }
+    }
+
+    throw new MockError(404, `Recipient ${recipientId} does not exist`);
+  }
+
+  /** Finds the envelope recipients are being added to or removed from, which must still be a draft. */
+  private findDraftEnvelope(envelopeId: string, action: string) {
+    const envelope = this.findEnvelope(envelopeId);
+
+    if (envelope.status !== EnvelopeStatus.Draft) {
+      throw new MockError(400, `Recipients can only be ${action} while the envelope is a draft`);
+    }
+
+    return envelope;
+  }
+
+  private addRecipient(envelopeId: string, params: RecipientCreateParams) {
+    const envelope = this.findDraftEnvelope(envelopeId, 'added');
+
+    if (!params.name || !params.email) {
+      throw new MockError(400, 'The name and email fields are required');
+    }
+
+    const recipient = MockAnnature.createRecipient(params, new Date());
+
+    envelope.recipients.push(recipient);
+
+    return recipient;
+  }
+
+  private removeRecipient(recipientId: string) {
+    const envelope = this.findDraftEnvelope(this.findRecipient(recipientId).envelope.id, 'removed');
+
+    envelope.recipients = envelope.recipients.filter(v => v.id !== recipientId);
+    this.fields.set(
+      envelope.id,
+      (this.fields.get(envelope.id) ?? []).filter(v => v.recipientId !== recipientId),
+    );
+
+    return ok();
+  }
+
+  private updateRecipient(recipientId: string, params: RecipientUpdateParams | RecipientDraftUpdateParams) {
+    const { envelope, recipient } = this.findRecipient(recipientId);
+
+    if (envelope.status === EnvelopeStatus.Completed || envelope.status === EnvelopeStatus.Voided) {
+      throw new MockError(400, `Recipients cannot be updated once the envelope is ${envelope.status}`);
+    }
+
+    const draftOnly = Object.keys(params).filter(v => !(RECIPIENT_UPDATE_KEYS as string[]).includes(v));
+
+    if (envelope.status !== EnvelopeStatus.Draft && draftOnly.length) {
+      throw new MockError(400, `The ${draftOnly.join(', ')} fields can only be changed while the envelope is a draft`);
+    }
+
+    const renamed = params.name !== undefined && params.name !== recipient.name;
+
+    Object.assign(recipient, pick(params as RecipientDraftUpdateParams, RECIPIENT_DRAFT_UPDATE_KEYS));
+
+    // As documented by `recipients.update`, changing the name of a recipient replaces them with a new recipient.
+    if (renamed) {
+      const replacement = id();
+
+      for (const field of this.fields.get(envelope.id) ?? []) {
+        if (field.recipientId === recipient.id) {
+          field.recipientId = replacement;
+        }
+      }
+
+      recipient.id = replacement;
+    }
+
+    return recipient;
+  }
+
+  private recipientToken(recipientId: string, query: { [key: string]: string }) {
+    const { recipient } = this.findRecipient(recipientId);
+
+    if (recipient.type === RecipientType.CarbonCopy) {
+      throw new MockError(400, 'Tokens cannot be created for carbon-copy recipients');
+    }
+
+    return {
+      endpoint: new URL(`sign/${recipient.id}`, this.baseURL).toString(),
+      expiration: new Date(Date.now() + Number(query.tokenDuration ?? 7) * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  private resend(recipientId: string, channel: string) {
+    const { envelope, recipient } = this.findRecipient(recipientId);
+    const resendable = [RecipientStatus.Send, RecipientStatus.Failed, RecipientStatus.Declined];
+
+    if (envelope.status !== EnvelopeStatus.Sent || !recipient.status || !resendable.includes(recipient.status)) {
+      throw new MockError(400, 'Correspondence can only be resent to recipients that are in progress');
+    }
+
+    if (channel === 'sms' && !recipient.mobile) {
+      throw new MockError(400, 'The recipient does not have a mobile number');
+    }
+
+    recipient.status = RecipientStatus.Send;
+    recipient.sent ??= new Date();
+
+    return recipient;
+  }
+
+  private envelopeFields(envelopeId: string) {
+    this.findEnvelope(envelopeId);
+
+    return this.fields.get(envelopeId) ?? [];
+  }
+
+  private findField(envelopeId: string, fieldId: string) {
+    const field = this.envelopeFields(envelopeId).find(v => v.id === fieldId);
+
+    if (!field) {
+      throw new MockError(404, `Field ${fieldId} does not exist`);
+    }
+
+    return field;
+  }
+
+  private envelopeDocuments(envelopeId: string) {
+    const envelope = this.findEnvelope(envelopeId);
+
+    return (this.documents.get(envelopeId) ?? []).map(v => ({
+      ...v,
+      original: this.fileUrl(v.original),
+      master: envelope.status === EnvelopeStatus.Created ? undefined : this.fileUrl(v.original),
+    }));
+  }
+
+  private findDocument(envelopeId: string, documentId: string) {
+    const document = this.envelopeDocuments(envelopeId).find(v => v.id === documentId);
+
+    if (!document) {
+      throw new MockError(404, `Document ${documentId} does not exist`);
+    }
+
+    return document;
+  }
+
+  private useTemplate(templateId: string, params: TemplateUseParams) {
+    const template = this.find(this.templates, templateId, 'Template');
+    const issues = validateTemplateUseParams(template, params);
+
+    if (issues.length) {
+      throw new MockError(400, issues.map(v => `${v.path}: ${v.message}`).join(', '));
+    }
+
+    return this.createEnvelope(
+      {
+        name: params.name ?? template.envelopeName,
+        message: params.message ?? template.envelopeMessage,
+        shared: params.shared ?? template.envelopeShared,
+        draft: params.draft,
+        accountId: params.accountId,
+        groupId: params.groupId,
+        recipients: params.recipients.map(({ roleId, ...recipient }) => {
+          const role = template.roles.find(v => v.id === roleId)!;
+
+          return {
+            name: recipient.name ?? role.recipientName!,
+            email: recipient.email ?? role.recipientEmail!,
+            mobile: recipient.mobile ?? role.recipientMobile,
+            password: recipient.password ?? role.recipientPassword,
+            message: recipient.message,
+            redirects: recipient.redirects ?? role.redirects,
+            fields: params.draft ? undefined : role.fields.map(({ created, ...field }) => field as FieldCreateParams),
+          };
+        }),
+      },
+      template.documents.map(document => {
+        const replacement = params.documents?.find(v => v.replacing === document.id);
+
+        return replacement
+          ? { id: replacement.id, name: replacement.name, data: Buffer.from(replacement.base as string, 'base64') }
+          : { id: document.id, name: document.name, data: this.files.get(document.original)! };
+      }),
+    );
+  }
+
+  private emit(type: WebhookEventType, data: Envelope | (Recipient & { envelopeId: string })) {
+    const event = { id: id(), type, created: new Date(), data: structuredClone(data) } as WebhookEvent;
+
+    this.events.push(event);
+
+    if (!this.deliverWebhooks) {
+      return;
+    }
+
+    for (const endpoint of this.endpoints.values()) {
+      if (!endpoint.active) {
+        continue;
+      }
+
+      const body = JSON.stringify(snakeCase(isoStringifyDates(event)));
+      const timestamp = Math.floor(Date.now() / 1000);
+      const delivery = axios
+        .post(endpoint.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            [SIGNATURE_HEADER]: computeSignature(body, endpoint.signature, timestamp),
+            [TIMESTAMP_HEADER]: String(timestamp),
+          },
+          transformRequest: data => data,
+          validateStatus: () => true,
+        })
+        .then(
+          res => void this.deliveries.push({ endpointId: endpoint.id, event, status: res.status }),
+          error => void this.deliveries.push({ endpointId: endpoint.id, event, error }),
+        )
+        .finally(() => this.pending.delete(delivery));
+
+      this.pending.add(delivery);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { AxiosInstance } from 'axios';
-import { handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { encodeFile, FileInput, logoRule } from './files';
+import { DatePaths, handleDataResponse, isoStringifyDates, snakeCase } from './utils';
 
 export type Organisation = {
   /** The unique identifier for the organisation. */
@@ -22,14 +23,16 @@ export type Organisation = {
   created: Date;
 };
 
+const organisationDates: DatePaths = ['created'];
+
 export type OrganisationUpdateParams = Pick<Organisation, 'name'> &
   Omit<Partial<Organisation>, 'id' | 'logo' | 'colour' | 'created'> & {
     /**
-     * Buffer or Base64 encoded string of the logo.
+     * The logo, supplied as a Buffer, Uint8Array, Blob, Readable stream, base64 encoded string or `{ path }` of a file on disk.
      *
-     * The data should decode into an image with a mime type of `image/jpeg`, `image/png` or `image/gif` and the file size must not be greater than 5mb.
+     * The logo must be an image with a mime type of `image/jpeg`, `image/png` or `image/gif` and the file size must not be greater than 5mb.
      */
-    logo?: Buffer | string;
+    logo?: FileInput;
     /**
      * Hex colour code representing the organisation's branding colour.
      *
@@ -40,18 +43,19 @@ export type OrganisationUpdateParams = Pick<Organisation, 'name'> &
 
 export default (client: AxiosInstance) => ({
   /** Retrieves the details of your organisation. */
-  retrieve: () => handleDataResponse<Organisation>(client.get('organisations')),
+  retrieve: () => handleDataResponse<Organisation>(client.get('organisations'), organisationDates),
   /** Creates a new group. */
-  update: (params: OrganisationUpdateParams) =>
+  update: async (params: OrganisationUpdateParams) =>
     handleDataResponse<Organisation>(
       client.put(
         'organisations',
         snakeCase(
           isoStringifyDates({
             ...params,
-            logo: Buffer.isBuffer(params.logo) ? params.logo.toString('base64') : params.logo,
+            logo: params.logo && (await encodeFile(params.logo, logoRule, 'logo')),
           }),
         ),
       ),
+      organisationDates,
     ),
 });
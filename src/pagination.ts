@@ -0,0 +1,83 @@
+import { AnnatureError } from './errors';
+
+/**
+ * Walks a list endpoint that returns at most `limit` results sorted by creation date, most recent first, by repeatedly listing the results created before the oldest
+ * result seen so far.
+ *
+ * Each window includes the oldest creation date of the previous window, so results sharing that date are not skipped, and results already yielded are dropped.
+ * @param list Lists the results created before the given date.
+ * @param limit The maximum number of results returned by the endpoint.
+ * @param createdBefore Only results created before this date are returned.
+ */
+export async function* paginate<T extends { id: string; created: Date }>(
+  list: (createdBefore?: Date) => Promise<T[]>,
+  limit: number,
+  createdBefore?: Date,
+): AsyncGenerator<T, void, undefined> {
+  let cursor = createdBefore;
+  let seen = new Set<string>();
+  let previous = new Set<string>();
+
+  for (;;) {
+    const page = await list(cursor);
+
+    // Without these checks, an endpoint that ignores the creation date filter would return the same page forever.
+    if (cursor && page.length && page[0].created >= cursor) {
+      throw new AnnatureError(
+        `Results created at or after ${cursor.toISOString()} were returned, so the list cannot be walked using creation dates`,
+      );
+    }
+
+    if (page.some(v => previous.has(v.id) && !seen.has(v.id))) {
+      throw new AnnatureError(
+        'Results from the previous window were returned again, so the list cannot be walked using creation dates',
+      );
+    }
+
+    const fresh = page.filter(v => !seen.has(v.id));
+
+    yield* fresh;
+
+    if (page.length < limit || !page.length) {
+      return;
+    }
+
+    const oldest = page[page.length - 1].created;
+
+    if (page[0].created.getTime() === oldest.getTime()) {
+      throw new AnnatureError(
+        `More than ${limit} results were created at ${oldest.toISOString()}, so they cannot all be listed using creation dates`,
+      );
+    }
+
+    // Only results created at the oldest date can appear in the next window as well.
+    seen = new Set(page.filter(v => v.created.getTime() === oldest.getTime()).map(v => v.id));
+    previous = new Set(page.map(v => v.id));
+    cursor = new Date(oldest.getTime() + 1);
+  }
+}
+
+/**
+ * Collects the results of an async iterable, such as `envelopes.listAll`, into an array. Iteration stops once `max` results have been collected.
+ * @param iterable The results.
+ * @param max The maximum number of results to collect.
+ * @example
+ * const envelopes = await collect(annature.envelopes.listAll({ status: EnvelopeStatus.Completed }), 5000);
+ */
+export const collect = async <T>(iterable: AsyncIterable<T>, max = Infinity) => {
+  const results: T[] = [];
+
+  if (max <= 0) {
+    return results;
+  }
+
+  for await (const result of iterable) {
+    results.push(result);
+
+    if (results.length >= max) {
+      break;
+    }
+  }
+
+  return results;
+};
@@ -1,5 +1,15 @@
 import { AxiosInstance } from 'axios';
-import { handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import { AnnatureNotFoundError, AnnatureValidationError } from './errors';
+import {
+  DatePaths,
+  handleDatalessResponse,
+  handleDataResponse,
+  handleOptionalDataResponse,
+  isoStringifyDates,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+} from './utils';
 
 export enum RecipientType {
   Signer = 'signer',
@@ -74,6 +84,10 @@ export type RecipientToken = {
   expiration: Date;
 };
 
+export const recipientDates: DatePaths = ['created', 'sent', 'declined', 'completed'];
+
+const recipientTokenDates: DatePaths = ['expiration'];
+
 export type RecipientRetrieveTokenParams = {
   /** Sets the number of days that the endpoint will be accessible for. Number can range between 1 and 30 with the default being 7. */
   tokenDuration?: number;
@@ -88,57 +102,156 @@ export type RecipientUpdateParams = {
   mobile?: string;
 };
 
-export default (client: AxiosInstance) => ({
-  /**
-   * Retrieves a single recipient created for an envelope using the `id` property that was returned in the create an envelope response body.
-   * @param id The unique identifier for the recipient.
-   */
-  retrieve: (id: string) => handleDataResponse<Recipient | undefined>(client.get(`recipients/${id}`)),
-  /**
-   * Generates a new signing token that can be used to access the envelope in the context of the recipient. If the recipient has already completed the envelope, this token can be
-   * used to view and download the master copy.
-   *
-   * When a recipient attempts to access an envelope using an expired signing token, they may choose to request a new one from Annature. When the recipient is not muted, Annature
-   * will send a new email or sms to the recipient based on the method they choose, however when the recipient is muted a `recipient_token_request` webhook event will be created.
-   * @param id The unique identifier for the recipient.
-   */
-  retrieveToken: (id: string, params: RecipientRetrieveTokenParams) =>
-    handleDataResponse<RecipientToken>(
-      client.get(`recipients/${id}/token`, { params: snakeCase(isoStringifyDates(params)) }),
-    ),
-  /**
-   * Sends a new signing email to the recipient. If the envelope has been completed, a new envelope completion email will be sent to the recipient instead.
-   *
-   * If you are resending a signing email to a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
-   *
-   * When the recipient's status is `completed` but the envelope is still in progress, this endpoint cannot be accessed as there is no action for the recipient to take.
-   *
-   * Recipients with type `carbon-copy` are only eligible to receive envelope completion emails, therefore for these recipients this endpoint can only be accessed when the
-   * envelope status is `completed`.
-   * @param id The unique identifier for the recipient.
-   */
-  resendEmail: (id: string) => handleDataResponse<Recipient>(client.post(`recipients/${id}/resend-email`)),
-  /**
-   * Sends a new signing sms to the recipient. This endpoint is only accessible when the recipient is in progress and the recipient has a mobile number.
-   *
-   * If you are resending a signing sms to a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
-   *
-   * Recipients with type `carbon-copy` are not eligible to receive sms notifications.
-   * @param id The unique identifier for the recipient.
-   */
-  resendSms: (id: string) => handleDataResponse<Recipient>(client.post(`recipients/${id}/resend-sms`)),
-  /**
-   * Updates the recipient by setting the values of the supplied parameters.
-   *
-   * When the name of a recipient is being changed, a new recipient will be created with a new `id` property. The existing recipient will be removed from the envelope, and
-   * any signing tokens that have been sent or sessions that have been created will immediately be expired.
-   *
-   * When the email address of a recipient is being changed, a new signing email will immediately be dispatched provided the recipient is eligible to receive signing emails.
-   * The same rule applies when changing the recipient's mobile number.
-   *
-   * If you are updating a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
-   * @param id The unique identifier for the recipient.
-   */
-  update: (id: string, params: RecipientUpdateParams) =>
-    handleDataResponse<Recipient>(client.put(`recipients/${id}`, snakeCase(isoStringifyDates(params)))),
-});
+export type RecipientCreateParams = Omit<
+  Recipient,
+  'id' | 'type' | 'status' | 'muted' | 'declinedReason' | 'created' | 'sent' | 'declined' | 'completed'
+> & {
+  /** The recipient type, defaults to `signer` when not supplied. Possible values are `signer`, `viewer`, and `carbon-copy`. */
+  type?: RecipientType;
+  /** Whether or not Annature will skip all correspondence to the recipient, defaults to false. */
+  muted?: boolean;
+};
+
+/**
+ * The parameters that can be updated while the recipient's envelope is a draft, before any correspondence has been sent. Once the envelope has been sent, only the
+ * `RecipientUpdateParams` can be updated.
+ */
+export type RecipientDraftUpdateParams = Partial<RecipientCreateParams>;
+
+export default (client: AxiosInstance) => {
+  const retrieve = (id: string) =>
+    handleOptionalDataResponse<Recipient>(client.get(`recipients/${id}`), recipientDates);
+
+  const update = (id: string, params: RecipientUpdateParams | RecipientDraftUpdateParams) =>
+    handleDataResponse<Recipient>(client.put(`recipients/${id}`, snakeCase(isoStringifyDates(params))), recipientDates);
+
+  return {
+    /**
+     * Retrieves a single recipient created for an envelope using the `id` property that was returned in the create an envelope response body.
+     * @param id The unique identifier for the recipient.
+     */
+    retrieve,
+    /**
+     * Generates a new signing token that can be used to access the envelope in the context of the recipient. If the recipient has already completed the envelope, this token can be
+     * used to view and download the master copy.
+     *
+     * When a recipient attempts to access an envelope using an expired signing token, they may choose to request a new one from Annature. When the recipient is not muted, Annature
+     * will send a new email or sms to the recipient based on the method they choose, however when the recipient is muted a `recipient_token_request` webhook event will be created.
+     * @param id The unique identifier for the recipient.
+     */
+    retrieveToken: (id: string, params: RecipientRetrieveTokenParams) =>
+      handleDataResponse<RecipientToken>(
+        client.get(`recipients/${id}/token`, { params: snakeCase(isoStringifyDates(params)) }),
+        recipientTokenDates,
+      ),
+    /**
+     * Sends a new signing email to the recipient. If the envelope has been completed, a new envelope completion email will be sent to the recipient instead.
+     *
+     * If you are resending a signing email to a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
+     *
+     * When the recipient's status is `completed` but the envelope is still in progress, this endpoint cannot be accessed as there is no action for the recipient to take.
+     *
+     * Recipients with type `carbon-copy` are only eligible to receive envelope completion emails, therefore for these recipients this endpoint can only be accessed when the
+     * envelope status is `completed`.
+     * @param id The unique identifier for the recipient.
+     */
+    resendEmail: (id: string, options?: RequestOptions) =>
+      handleDataResponse<Recipient>(
+        client.post(`recipients/${id}/resend-email`, undefined, requestConfig(options)),
+        recipientDates,
+      ),
+    /**
+     * Sends a new signing sms to the recipient. This endpoint is only accessible when the recipient is in progress and the recipient has a mobile number.
+     *
+     * If you are resending a signing sms to a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
+     *
+     * Recipients with type `carbon-copy` are not eligible to receive sms notifications.
+     * @param id The unique identifier for the recipient.
+     */
+    resendSms: (id: string, options?: RequestOptions) =>
+      handleDataResponse<Recipient>(
+        client.post(`recipients/${id}/resend-sms`, undefined, requestConfig(options)),
+        recipientDates,
+      ),
+    /**
+     * Updates the recipient by setting the values of the supplied parameters.
+     *
+     * When the name of a recipient is being changed, a new recipient will be created with a new `id` property. The existing recipient will be removed from the envelope, and
+     * any signing tokens that have been sent or sessions that have been created will immediately be expired.
+     *
+     * When the email address of a recipient is being changed, a new signing email will immediately be dispatched provided the recipient is eligible to receive signing emails.
+     * The same rule applies when changing the recipient's mobile number.
+     *
+     * If you are updating a recipient with a status of `failed` or `declined`, the status will automatically be updated back to `sent`.
+     *
+     * Use `updateDraft` to change the other properties of a recipient while the envelope is a draft.
+     * @param id The unique identifier for the recipient.
+     */
+    update: (id: string, params: RecipientUpdateParams) => update(id, params),
+    /**
+     * Updates a recipient of a draft envelope by setting the values of the supplied parameters, including the signing `order`, `password`, `muted` and `redirects`.
+     *
+     * This action can only be done when the envelope's status is `draft`. The API reference only documents updating a recipient's name, email and mobile, so the
+     * other parameters are unverified against the API.
+     * @param id The unique identifier for the recipient.
+     */
+    updateDraft: (id: string, params: RecipientDraftUpdateParams) => update(id, params),
+    /**
+     * Adds a recipient to a draft envelope.
+     *
+     * This action can only be done when the envelope's status is `draft`. As when creating a draft envelope, recipient fields are not supported, so they must be added in
+     * the Annature dashboard before the draft is sent.
+     *
+     * This endpoint is not described by the API reference, so is unverified against the API.
+     * @param envelopeId The unique identifier for the envelope.
+     */
+    create: (envelopeId: string, params: RecipientCreateParams, options?: RequestOptions) =>
+      handleDataResponse<Recipient>(
+        client.post(`envelopes/${envelopeId}/recipients`, snakeCase(isoStringifyDates(params)), requestConfig(options)),
+        recipientDates,
+      ),
+    /**
+     * Removes a recipient from a draft envelope, along with any fields that have been placed for the recipient.
+     *
+     * This action can only be done when the envelope's status is `draft`. This endpoint is not described by the API reference, so is unverified against the API.
+     * @param id The unique identifier for the recipient.
+     */
+    delete: (id: string) => handleDatalessResponse(client.delete(`recipients/${id}`)),
+    /**
+     * Sets the signing order of a draft envelope's recipients, resolving to the updated recipients.
+     *
+     * Recipients are given the order of their position in the list, starting from 1. Recipients supplied together in a nested list share the same order, so are sent the
+     * envelope at the same time.
+     *
+     * Every recipient is retrieved before any is updated, throwing an `AnnatureNotFoundError` when one does not exist. The recipients are then updated one at a time, so
+     * this is not atomic: when an update fails, the recipients before it have already been reordered and `reorder` should be called again.
+     * @param ids The unique identifiers for the recipients, in signing order.
+     * @example
+     * await annature.recipients.reorder([managerId, [witnessId, employeeId]]);
+     */
+    reorder: async (ids: (string | string[])[]) => {
+      const flattened = ids.flat();
+      const recipients: Recipient[] = [];
+
+      if (new Set(flattened).size !== flattened.length) {
+        throw new AnnatureValidationError('Each recipient can only be supplied once', {
+          issues: [{ path: 'ids', message: 'Must not contain duplicates' }],
+        });
+      }
+
+      for (const id of flattened) {
+        if (!(await retrieve(id))) {
+          throw new AnnatureNotFoundError(`Recipient ${id} does not exist`);
+        }
+      }
+
+      for (const [i, group] of ids.entries()) {
+        for (const id of typeof group === 'string' ? [group] : group) {
+          recipients.push(await update(id, { order: i + 1 }));
+        }
+      }
+
+      return recipients;
+    },
+  };
+};
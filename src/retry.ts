@@ -0,0 +1,77 @@
+import { AxiosAdapter, AxiosError, AxiosRequestConfig } from 'axios';
+import { IDEMPOTENCY_KEY_HEADER } from './utils';
+
+export type RetryPolicy = {
+  /** The maximum number of attempts made for a request, including the first. Defaults to 3. */
+  maxAttempts: number;
+  /** The number of milliseconds the backoff starts from, doubling with each attempt. Defaults to 500. */
+  baseDelay: number;
+  /**
+   * The maximum number of milliseconds to wait between attempts. Defaults to 30000.
+   *
+   * Requests are not retried when the API responds with a `Retry-After` header asking for a longer wait.
+   */
+  maxDelay: number;
+  /** The response statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504. */
+  statuses: number[];
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  statuses: [408, 429, 500, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Parses a `Retry-After` header, which is either a number of seconds or a HTTP date, into milliseconds. */
+const retryAfter = (value?: string) => {
+  if (!value) {
+    return undefined;
+  }
+
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : new Date(value).getTime() - Date.now();
+
+  return Number.isNaN(ms) ? undefined : Math.max(ms, 0);
+};
+
+/**
+ * Whether a request is safe to send again. POST requests are only retried when an idempotency key has been supplied, as they would otherwise risk
+ * creating duplicate envelopes or sending duplicate emails.
+ */
+const isRetryable = (config: AxiosRequestConfig) =>
+  IDEMPOTENT_METHODS.includes(config.method?.toLowerCase() ?? 'get') || !!config.headers?.[IDEMPOTENCY_KEY_HEADER];
+
+/**
+ * Wraps an adapter so that failed requests are retried according to the policy. Network failures and the policy's response statuses are retried with
+ * exponential backoff and full jitter, honouring the `Retry-After` header when one is returned.
+ *
+ * Retrying within the adapter means interceptors see a single request and a single response or error, however many attempts were made.
+ */
+export default (adapter: AxiosAdapter, policy: RetryPolicy): AxiosAdapter =>
+  async config => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await adapter(config);
+      } catch (error: any) {
+        if (
+          attempt >= policy.maxAttempts ||
+          !isRetryable(config) ||
+          (error?.response ? !policy.statuses.includes(error.response.status) : error?.code === AxiosError.ERR_CANCELED)
+        ) {
+          throw error;
+        }
+
+        const requested = retryAfter(error?.response?.headers?.['retry-after']);
+
+        if (requested !== undefined && requested > policy.maxDelay) {
+          throw error;
+        }
+
+        await sleep(requested ?? Math.random() * Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1)));
+      }
+    }
+  };
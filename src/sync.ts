@@ -0,0 +1,233 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { Annature } from './client';
+import { Envelope, EnvelopeStatus } from './envelopes';
+import { Recipient, RecipientStatus } from './recipients';
+import { EnvelopeWebhookEvent, RecipientWebhookEvent, WebhookEventType } from './webhooks';
+
+export type SyncCursor = {
+  /** The latest `created` date of the envelopes synced so far. */
+  created?: Date;
+  /** The latest `completed` date of the envelopes synced so far. */
+  completed?: Date;
+};
+
+/** The storage of envelope snapshots and the cursor, implemented over your own database. */
+export type SyncAdapter = {
+  /** Returns the stored snapshot of an envelope, or undefined when the envelope has not been stored. */
+  getEnvelope: (id: string) => Envelope | undefined | Promise<Envelope | undefined>;
+  /** Returns the stored snapshots of every envelope with a status of `created` or `sent`. */
+  listOpenEnvelopes: () => Envelope[] | Promise<Envelope[]>;
+  /** Stores the snapshot of an envelope, replacing any previous snapshot. */
+  saveEnvelope: (envelope: Envelope) => void | Promise<void>;
+  /** Removes the snapshot of an envelope that no longer exists. */
+  deleteEnvelope: (id: string) => void | Promise<void>;
+  /** Returns the stored cursor, or undefined before the first sync. */
+  getCursor: () => SyncCursor | undefined | Promise<SyncCursor | undefined>;
+  /** Stores the cursor. */
+  saveCursor: (cursor: SyncCursor) => void | Promise<void>;
+};
+
+type BaseSyncEvent<E extends { type: WebhookEventType; data: unknown }, P> = Pick<E, 'type' | 'data'> & {
+  /** Date and time at which the change was detected. */
+  created: Date;
+  /** The object as it was stored before the change, or undefined when it had not been stored. */
+  previous?: P;
+};
+
+export type EnvelopeSyncEvent = BaseSyncEvent<EnvelopeWebhookEvent, Envelope>;
+
+export type RecipientSyncEvent = BaseSyncEvent<RecipientWebhookEvent, Recipient>;
+
+/** A change detected between two snapshots of an envelope, typed as the webhook event Annature delivers for the same change. */
+export type SyncEvent = EnvelopeSyncEvent | RecipientSyncEvent;
+
+export type EnvelopeSyncOptions = {
+  /** The storage of envelope snapshots and the cursor. */
+  adapter: SyncAdapter;
+  /**
+   * Called for each change detected. The envelope's snapshot is only stored once the callbacks for its changes have resolved, so a change whose callback throws is
+   * detected again by the next sync.
+   */
+  onChange: (event: SyncEvent) => void | Promise<void>;
+  /**
+   * Only envelopes created after this date are synced when no cursor has been stored. By default every envelope is synced, emitting the changes that led to each
+   * envelope's current status.
+   */
+  since?: Date;
+};
+
+export type EnvelopeSyncWatchParams = {
+  /** The number of milliseconds between each sync. Defaults to 60000. */
+  interval?: number;
+  /** A signal that stops watching when aborted. */
+  signal?: AbortSignal;
+  /** Called when a sync fails, after which watching continues at the next interval. By default watching stops and the error is thrown. */
+  onError?: (error: Error) => void;
+};
+
+export type SyncReport = {
+  /** The number of envelopes compared against their stored snapshots. */
+  envelopes: number;
+  /** The changes detected, in the order they were emitted. */
+  events: SyncEvent[];
+};
+
+const ENVELOPE_EVENTS: { [key in EnvelopeStatus]?: EnvelopeSyncEvent['type'] } = {
+  [EnvelopeStatus.Sent]: WebhookEventType.EnvelopeSent,
+  [EnvelopeStatus.Completed]: WebhookEventType.EnvelopeCompleted,
+  [EnvelopeStatus.Voided]: WebhookEventType.EnvelopeVoided,
+};
+
+const RECIPIENT_EVENTS: { [key in RecipientStatus]?: RecipientSyncEvent['type'] } = {
+  [RecipientStatus.Send]: WebhookEventType.RecipientSent,
+  [RecipientStatus.Completed]: WebhookEventType.RecipientCompleted,
+  [RecipientStatus.Declined]: WebhookEventType.RecipientDeclined,
+  [RecipientStatus.Failed]: WebhookEventType.RecipientFailed,
+};
+
+const DEFAULT_WATCH_INTERVAL = 60000;
+
+const latest = (dates: (Date | undefined)[]) =>
+  dates.reduce<Date | undefined>((max, v) => (v && (!max || v > max) ? v : max), undefined);
+
+/**
+ * Compares two snapshots of an envelope, returning the changes between them. Recipient changes are returned before envelope changes, matching the order Annature
+ * delivers webhooks in.
+ * @param previous The earlier snapshot, or undefined to return the changes that led to the envelope's current status.
+ * @param current The later snapshot.
+ */
+export const envelopeChanges = (previous: Envelope | undefined, current: Envelope): SyncEvent[] => {
+  const created = new Date();
+  const events: SyncEvent[] = [];
+
+  for (const recipient of current.recipients) {
+    const before = previous?.recipients.find(v => v.id === recipient.id);
+    const type = recipient.status && RECIPIENT_EVENTS[recipient.status];
+
+    if (type && recipient.status !== before?.status) {
+      events.push({ type, created, data: { ...recipient, envelopeId: current.id }, previous: before });
+    }
+  }
+
+  const type = ENVELOPE_EVENTS[current.status];
+
+  if (type && current.status !== previous?.status) {
+    events.push({ type, created, data: current, previous });
+  }
+
+  if (current.declined && !previous?.declined) {
+    events.push({ type: WebhookEventType.EnvelopeDeclined, created, data: current, previous });
+  }
+
+  return events;
+};
+
+/** Creates a sync adapter that keeps snapshots in memory, for trying out a sync or for processes that only need changes while they are running. */
+export const createMemorySyncAdapter = (): SyncAdapter => {
+  const envelopes = new Map<string, Envelope>();
+  let cursor: SyncCursor | undefined;
+
+  return {
+    getEnvelope: id => envelopes.get(id),
+    listOpenEnvelopes: () =>
+      [...envelopes.values()].filter(v => v.status === EnvelopeStatus.Created || v.status === EnvelopeStatus.Sent),
+    saveEnvelope: envelope => void envelopes.set(envelope.id, envelope),
+    deleteEnvelope: id => void envelopes.delete(id),
+    getCursor: () => cursor,
+    saveCursor: value => void (cursor = value),
+  };
+};
+
+/**
+ * Creates a sync engine that mirrors envelopes into your own database, detecting the changes that would otherwise only be received by webhook. This recovers from
+ * webhooks that were dropped or could not be delivered.
+ *
+ * Each sync lists the envelopes created or completed after the stored cursor and every envelope that is still being sent, retrieves any stored open envelope that was
+ * not listed, for example as it has been voided, and compares each against its stored snapshot.
+ * @param annature The client used to list and retrieve envelopes.
+ * @example
+ * const sync = createEnvelopeSync(annature, { adapter, onChange: event => console.log(event.type, event.data.id) });
+ *
+ * await sync.watch({ interval: 60000, signal });
+ */
+export const createEnvelopeSync = (annature: Pick<Annature, 'envelopes'>, options: EnvelopeSyncOptions) => {
+  const { adapter, onChange, since } = options;
+
+  const sync = async (): Promise<SyncReport> => {
+    const cursor = (await adapter.getCursor()) ?? { created: since };
+    const listed = new Map<string, Envelope>();
+
+    // Inclusive of the cursor, as envelopes sharing its timestamp may not have been listed by the previous sync.
+    const inclusive = (date?: Date) => date && new Date(date.getTime() - 1);
+
+    for (const params of [
+      { createdAfter: inclusive(cursor.created) },
+      { status: EnvelopeStatus.Sent },
+      { status: EnvelopeStatus.Completed, completedAfter: inclusive(cursor.completed ?? cursor.created) },
+    ]) {
+      for await (const envelope of annature.envelopes.listAll(params)) {
+        listed.set(envelope.id, envelope);
+      }
+    }
+
+    const envelopes = [...listed.values()];
+
+    for (const envelope of await adapter.listOpenEnvelopes()) {
+      if (!listed.has(envelope.id)) {
+        const current = await annature.envelopes.retrieve(envelope.id);
+
+        if (current) {
+          envelopes.push(current);
+        } else {
+          await adapter.deleteEnvelope(envelope.id);
+        }
+      }
+    }
+
+    const events: SyncEvent[] = [];
+
+    // Oldest first, roughly matching the order the changes happened in.
+    for (const envelope of envelopes.sort((a, b) => a.created.getTime() - b.created.getTime())) {
+      for (const event of envelopeChanges(await adapter.getEnvelope(envelope.id), envelope)) {
+        await onChange(event);
+        events.push(event);
+      }
+
+      await adapter.saveEnvelope(envelope);
+    }
+
+    await adapter.saveCursor({
+      created: latest([cursor.created, ...envelopes.map(v => v.created)]),
+      completed: latest([cursor.completed, ...envelopes.map(v => v.completed)]),
+    });
+
+    return { envelopes: envelopes.length, events };
+  };
+
+  return {
+    /** Syncs once, resolving to the changes detected. */
+    sync,
+    /** Syncs repeatedly until the signal is aborted. */
+    watch: async (params?: EnvelopeSyncWatchParams) => {
+      const { interval = DEFAULT_WATCH_INTERVAL, signal, onError } = params ?? {};
+
+      while (!signal?.aborted) {
+        try {
+          await sync();
+        } catch (error: any) {
+          if (!onError) {
+            throw error;
+          }
+
+          onError(error);
+        }
+
+        try {
+          await sleep(interval, undefined, { signal });
+        } catch {
+          return;
+        }
+      }
+    },
+  };
+};
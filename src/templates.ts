@@ -1,6 +1,40 @@
 import { AxiosInstance } from 'axios';
-import { Document } from './documents';
-import { handleDataResponse, isoStringifyDates, snakeCase } from './utils';
+import bulkUse, { BulkUseOptions } from './bulk';
+import { Document, documentDates } from './documents';
+import { Envelope, envelopeDates } from './envelopes';
+import { Field } from './fields';
+import { documentRule, encodeFile, FileInput } from './files';
+import { paginate } from './pagination';
+import { Recipient } from './recipients';
+import {
+  DatePaths,
+  handleDataResponse,
+  isoStringifyDates,
+  nestDatePaths,
+  RequestOptions,
+  requestConfig,
+  snakeCase,
+} from './utils';
+import { assertValid, validateTemplateUseParams } from './validation';
+
+export type TemplateRole = {
+  /** The unique identifier for the role, supplied as the `roleId` of a recipient when using the template. */
+  id: string;
+  /** The name of the role, for example `Employee`. */
+  name: string;
+  /** The default name of the recipient inheriting the role. */
+  recipientName?: string;
+  /** The default email address of the recipient inheriting the role. */
+  recipientEmail?: string;
+  /** The default mobile number of the recipient inheriting the role, adhering to E.164 format. */
+  recipientMobile?: string;
+  /** The default password, code or passphrase the recipient inheriting the role must enter before they are able to view the envelope. */
+  recipientPassword?: string;
+  /** The default destination endpoints to redirect the recipient's web browser to after different actions have been taken while in-session. */
+  redirects?: Recipient['redirects'];
+  /** The fields the recipient inheriting the role must complete. */
+  fields: Field[];
+};
 
 export type Template = {
   /** The unique identifier for the envelope. */
@@ -27,10 +61,16 @@ export type Template = {
   groupId: string;
   /** The documents of the template. */
   documents: Document[];
-  /** The roles of the template. */
-  roles: any[];
+  /** The roles of the template. A recipient must be supplied for each role when using the template. */
+  roles: TemplateRole[];
 };
 
+const templateDates: DatePaths = [
+  'created',
+  ...nestDatePaths('documents[]', documentDates),
+  'roles[].fields[].created',
+];
+
 export type TemplatesListParams = {
   /** An exact-match filter on the list based on the template's `name` property. */
   name?: string;
@@ -89,8 +129,8 @@ export type TemplateUseParams = {
      * If a file name it not supplied, one will automatically be generated using a 32 character uuid.
      */
     name?: string;
-    /** The Buffer or base64 encoded string of the PDF file. */
-    base: Buffer | string;
+    /** The PDF file, supplied as a Buffer, Uint8Array, Blob, Readable stream, base64 encoded string or `{ path }` of a file on disk. */
+    base: FileInput;
   }[];
   /** The collection of recipients that make up the envelope. The number of recipients supplied in the request must match the number of roles that exist on the template. */
   recipients: {
@@ -149,43 +189,92 @@ export type TemplateUseParams = {
   }[];
 };
 
-export default (client: AxiosInstance) => ({
-  /**
-   * Returns a list of usable templates. Templates are sorted by creation date, with the most recent templates appearing first. Templates that do not contain any documents
-   * or roles are not considered usable and will not be returned.
-   *
-   * Results are limited to 250.
-   */
-  list: (params?: TemplatesListParams) =>
-    handleDataResponse<Template[]>(client.get('templates', { params: snakeCase(isoStringifyDates(params)) })),
-  /**
-   * Creates an envelope automatically inheriting most required fields from the template.
-   *
-   * The number of recipients supplied in the request must match the number of roles that exist on the template. For example, if a template contains three roles you must supply
-   * three recipients each with a `roleId` property that corresponds to the template role the recipient is inheriting fields or other properties from.
-   *
-   * Documents are not required to be supplied as the documents of the template will automatically be used to create the envelope. If a document of the template is being
-   * replaced with another document, you must ensure the new document contains the same number of pages as the one being replaced.
-   *
-   * Draft envelopes can be created by supplying `draft` as true. Drafts can be opened in the Annature dashboard and fields can be added manually before being sent by opening
-   * the following URL: `https://dashboard.annature.com.au/create-envelope?envelopeId={{envelope_id}}`.
-   * @param id The unique identifier of the template being used to create the envelope.
-   */
-  use: (id: string, params: TemplateUseParams) =>
-    handleDataResponse<Template | undefined>(
-      client.post(`templates/${id}/use`, {
-        params: snakeCase(
+const TEMPLATES_LIST_LIMIT = 250;
+
+export default (client: AxiosInstance) => {
+  const list = (params?: TemplatesListParams) =>
+    handleDataResponse<Template[]>(
+      client.get('templates', { params: snakeCase(isoStringifyDates(params)) }),
+      templateDates,
+    );
+
+  const use = async (template: string | Template, params: TemplateUseParams, options?: RequestOptions) => {
+    if (typeof template !== 'string') {
+      assertValid(validateTemplateUseParams(template, params));
+    }
+
+    return handleDataResponse<Envelope>(
+      client.post(
+        `templates/${typeof template === 'string' ? template : template.id}/use`,
+        snakeCase(
           isoStringifyDates({
-            id,
             ...params,
             documents: params.documents
-              ? params.documents.map(v => ({
-                  ...v,
-                  base: Buffer.isBuffer(v.base) ? v.base.toString('base64') : v.base,
-                }))
+              ? await Promise.all(
+                  params.documents.map(async (v, i) => ({
+                    ...v,
+                    base: await encodeFile(v.base, documentRule, `documents[${i}].base`),
+                  })),
+                )
               : params.documents,
           }),
         ),
-      }),
-    ),
-});
+        requestConfig(options),
+      ),
+      envelopeDates,
+    );
+  };
+
+  return {
+    /**
+     * Returns a list of usable templates. Templates are sorted by creation date, with the most recent templates appearing first. Templates that do not contain any documents
+     * or roles are not considered usable and will not be returned.
+     *
+     * Results are limited to 250.
+     */
+    list,
+    /**
+     * Returns every usable template matching the parameters, working around the 250 result limit of `list` by listing templates in windows of creation dates. Templates
+     * are sorted by creation date, with the most recent templates appearing first.
+     */
+    listAll: (params?: TemplatesListParams): AsyncIterable<Template> =>
+      paginate(createdBefore => list({ ...params, createdBefore }), TEMPLATES_LIST_LIMIT, params?.createdBefore),
+    /**
+     * Creates an envelope automatically inheriting most required fields from the template.
+     *
+     * The number of recipients supplied in the request must match the number of roles that exist on the template. For example, if a template contains three roles you must supply
+     * three recipients each with a `roleId` property that corresponds to the template role the recipient is inheriting fields or other properties from.
+     *
+     * Documents are not required to be supplied as the documents of the template will automatically be used to create the envelope. If a document of the template is being
+     * replaced with another document, you must ensure the new document contains the same number of pages as the one being replaced.
+     *
+     * Draft envelopes can be created by supplying `draft` as true. Drafts can be opened in the Annature dashboard and fields can be added manually before being sent by opening
+     * the following URL: `https://dashboard.annature.com.au/create-envelope?envelopeId={{envelope_id}}`.
+     *
+     * When a template is supplied rather than its identifier, the recipients are validated against the template's roles before the request is made, throwing an
+     * `AnnatureValidationError` listing the issues found.
+     * @param template The template, or the unique identifier of the template, being used to create the envelope.
+     */
+    use,
+    /**
+     * Uses the template once for each row, creating an envelope per row and reporting the envelope created or the error thrown for each.
+     *
+     * Up to `concurrency` envelopes are created at once. Each row is sent with an idempotency key so that retried requests do not create duplicate envelopes, and when a
+     * `checkpoint` file is supplied rows that have already been created are skipped, allowing an interrupted run to be resumed.
+     * @param template The template, or the unique identifier of the template, being used to create the envelopes.
+     * @param rows The rows to create envelopes for, mapped to the parameters for using the template with the `map` option.
+     * @example
+     * const report = await annature.templates.bulkUse(templateId, employees, {
+     *   map: employee => ({ accountId, recipients: [{ roleId, name: employee.name, email: employee.email }] }),
+     *   checkpoint: 'onboarding.json',
+     * });
+     */
+    bulkUse: <R = TemplateUseParams>(template: string | Template, rows: R[], options?: BulkUseOptions<R>) =>
+      bulkUse(use, template, rows, options),
+    /**
+     * Validates the parameters for using a template against the template's roles without making a request, returning the issues found.
+     * @param template The template being used to create the envelope.
+     */
+    validate: validateTemplateUseParams,
+  };
+};
@@ -1,72 +1,144 @@
-import { AxiosResponse } from 'axios';
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { AnnatureError, AnnatureNotFoundError, toAnnatureError } from './errors';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export type RequestOptions = {
+  /**
+   * A unique key identifying the operation, such as a uuid. Requests that create resources or send correspondence are only retried after a failure when an
+   * idempotency key has been supplied, and the same key must be used if the operation is attempted again later.
+   */
+  idempotencyKey?: string;
+};
+
+export const requestConfig = (options?: RequestOptions): AxiosRequestConfig =>
+  options?.idempotencyKey ? { headers: { [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey } } : {};
+
+/**
+ * Throws when the signal has already been aborted, with the same error as an aborted `timers/promises` timer, so that an operation stopped before it has started
+ * makes no requests.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw Object.assign(new Error('The operation was aborted'), { name: 'AbortError', code: 'ABORT_ERR' });
+  }
+};
+
+/** Keys holding user-defined data, whose own keys are passed through untouched. */
+const PRESERVED_KEYS = ['metadata'];
+
+const isPlainObject = (o: any): o is { [key: string]: any } =>
+  typeof o === 'object' && o !== null && [Object.prototype, null].includes(Object.getPrototypeOf(o));
+
+const convertKeys = (o: any, convert: (key: string) => string): any => {
+  if (Array.isArray(o)) {
+    return o.map(v => convertKeys(v, convert));
+  }
+
+  if (!isPlainObject(o)) {
+    return o;
+  }
 
-export const snakeCase = (o?: { [key: string]: any }) => {
   const newObj: { [key: string]: any } = {};
 
-  if (o) {
-    for (const key of Object.keys(o)) {
-      newObj[key.replaceAll(/([A-Z])/g, match => '_' + match.toLowerCase())] = o[key];
-    }
+  for (const key of Object.keys(o)) {
+    newObj[convert(key)] = PRESERVED_KEYS.includes(key) ? o[key] : convertKeys(o[key], convert);
   }
 
   return newObj;
 };
 
-export const camelCase: <T>(o: any) => T = <T>(o?: { [key: string]: any }) => {
-  const newObj: typeof o = {};
+export const snakeCase = (o?: { [key: string]: any }): { [key: string]: any } =>
+  convertKeys(o ?? {}, key => key.replaceAll(/([A-Z])/g, match => '_' + match.toLowerCase()));
+
+export const camelCase: <T>(o: any) => T = <T>(o?: { [key: string]: any }) =>
+  convertKeys(o ?? {}, key => key.replaceAll(/(_[a-z])/g, match => match.slice(-1).toUpperCase())) as T;
+
+/**
+ * The paths of the date properties of a resource. Keys are separated by `.` and array elements are denoted by a `[]` suffix on the key of the array,
+ * for example `recipients[].created`.
+ */
+export type DatePaths = string[];
+
+/**
+ * Prefixes each of the date paths of a nested resource with the path of the property it is nested under.
+ * @param prefix The path of the property the resource is nested under, for example `recipients[]`.
+ * @param paths The date paths of the nested resource.
+ */
+export const nestDatePaths = (prefix: string, paths: DatePaths): DatePaths => paths.map(v => `${prefix}.${v}`);
+
+export const isoStringifyDates = (o?: { [key: string]: any }): { [key: string]: any } => {
+  const stringify = (value: any): any => {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
 
-  if (o) {
-    for (const key of Object.keys(o)) {
-      newObj[key.replaceAll(/(_[a-z])/g, match => match.slice(-1).toUpperCase())] = o[key];
+    if (Array.isArray(value)) {
+      return value.map(stringify);
     }
-  }
 
-  return newObj as T;
-};
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, stringify(v)]));
+    }
 
-export const isoStringifyDates = (o?: { [key: string]: any }) => {
-  let newObj: typeof o = {};
+    return value;
+  };
 
-  if (o) {
-    newObj = { ...o };
+  return stringify(o ?? {});
+};
 
-    for (const key of Object.keys(o)) {
-      if (o[key] instanceof Date) {
-        newObj[key] = o[key].toISOString();
-      }
-    }
+const revive = (o: any, keys: string[]): any => {
+  if (!keys.length) {
+    return typeof o === 'string' ? new Date(o) : o;
   }
 
-  return newObj ?? {};
-};
+  if (!isPlainObject(o)) {
+    return o;
+  }
 
-export const datifyIsoStrings = (o?: { [key: string]: any }) => {
-  let newObj: typeof o = {};
+  const [key, ...rest] = keys;
 
-  if (o) {
-    newObj = { ...o };
+  if (key.endsWith('[]')) {
+    const arrayKey = key.slice(0, -2);
 
-    for (const key of Object.keys(o)) {
-      if (
-        ['created', 'verified', 'sent', 'voided', 'declined', 'completed', 'viewed', 'failed', 'expiration'].includes(
-          key,
-        )
-      ) {
-        newObj[key] = new Date(o[key]);
-      }
-    }
+    return Array.isArray(o[arrayKey]) ? { ...o, [arrayKey]: o[arrayKey].map((v: any) => revive(v, rest)) } : o;
   }
 
-  return newObj ?? {};
+  return key in o ? { ...o, [key]: revive(o[key], rest) } : o;
 };
 
-export const handleDataResponse: <T>(apiCall: Promise<AxiosResponse>) => Promise<T> = async apiCall => {
+export const datifyIsoStrings = (o: { [key: string]: any } | undefined, dates: DatePaths) =>
+  dates.reduce((newObj, path) => revive(newObj, path.split('.')), o ?? {});
+
+export const handleDataResponse: <T>(apiCall: Promise<AxiosResponse>, dates?: DatePaths) => Promise<T> = async (
+  apiCall,
+  dates = [],
+) => {
   try {
     const res = await apiCall;
 
-    return Array.isArray(res.data) ? res.data.map(v => datifyIsoStrings(v)) : (datifyIsoStrings(res.data) as any);
+    const data = camelCase<any>(res.data);
+
+    return Array.isArray(data) ? data.map(v => datifyIsoStrings(v, dates)) : (datifyIsoStrings(data, dates) as any);
   } catch (error: any) {
-    throw error?.response?.data?.message ? Error(error?.response?.data?.message) : error;
+    throw toAnnatureError(error);
+  }
+};
+
+/** Handles the response of a request for a single resource, resolving to `undefined` when the resource does not exist. */
+export const handleOptionalDataResponse: <T>(
+  apiCall: Promise<AxiosResponse>,
+  dates?: DatePaths,
+) => Promise<T | undefined> = async (apiCall, dates) => {
+  try {
+    return await handleDataResponse(apiCall, dates);
+  } catch (error: any) {
+    if (error instanceof AnnatureNotFoundError) {
+      return undefined;
+    }
+
+    throw error;
   }
 };
 
@@ -74,6 +146,45 @@ export const handleDatalessResponse: (apiCall: Promise<AxiosResponse>) => Promis
   try {
     await apiCall;
   } catch (error: any) {
-    throw error?.response?.data?.message ? Error(error?.response?.data?.message) : error;
+    throw toAnnatureError(error);
+  }
+};
+
+/**
+ * Downloads a file from one of the temporary endpoints returned by the API. When the endpoint has expired and returns 403 forbidden, a new endpoint is resolved
+ * and the download is attempted once more.
+ * @param downloader The client used to download files, which must not send credentials to the file host.
+ * @param stream Whether to resolve to a stream rather than a Buffer.
+ * @param url The endpoint to download the file from, when it is already known.
+ * @param resolveUrl Resolves a new endpoint for the file.
+ */
+export const handleDownload = async (
+  downloader: AxiosInstance,
+  stream: boolean,
+  url: string | undefined,
+  resolveUrl: () => Promise<string | undefined>,
+): Promise<Buffer | Readable> => {
+  const get = async (url?: string) => {
+    if (!url) {
+      throw new AnnatureError('The file is not available for download');
+    }
+
+    const res = await downloader.get(url, { responseType: stream ? 'stream' : 'arraybuffer' });
+
+    return stream ? (res.data as Readable) : Buffer.from(res.data);
+  };
+
+  try {
+    try {
+      return await get(url ?? (await resolveUrl()));
+    } catch (error: any) {
+      if (url && error?.response?.status === 403) {
+        return await get(await resolveUrl());
+      }
+
+      throw error;
+    }
+  } catch (error: any) {
+    throw toAnnatureError(error);
   }
 };
@@ -0,0 +1,202 @@
+import { EnvelopeCreateParams, EnvelopeStatus, EnvelopeUpdateParams } from './envelopes';
+import { AnnatureValidationError, ValidationIssue } from './errors';
+import { FieldType } from './fields';
+import { RecipientType } from './recipients';
+import { Template, TemplateUseParams } from './templates';
+
+/** Mobile numbers must be supplied in E.164 format, for example `+61412345678`. */
+export const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+const MIN_FONT_SIZE = 8;
+const MAX_FONT_SIZE = 32;
+
+/**
+ * Throws an `AnnatureValidationError` listing the issues, if there are any.
+ * @param issues The issues found when validating the parameters.
+ */
+export const assertValid = (issues: ValidationIssue[]) => {
+  if (issues.length) {
+    throw new AnnatureValidationError(
+      `Invalid parameters: ${issues.map(v => `${v.path ? `${v.path}: ` : ''}${v.message}`).join(', ')}`,
+      { issues },
+    );
+  }
+};
+
+/** Finds the values that appear more than once. */
+const duplicates = (values: (string | undefined)[]) =>
+  new Set(values.filter((v, i) => v !== undefined && values.indexOf(v) !== i));
+
+/**
+ * Validates the parameters for creating an envelope against the rules documented by the API, returning the issues found.
+ * @param params The parameters for creating an envelope.
+ */
+export const validateEnvelopeCreateParams = (params: EnvelopeCreateParams) => {
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+  const recipients = params.recipients ?? [];
+  const fields = recipients.flatMap((recipient, i) =>
+    (recipient.fields ?? []).map((field, j) => ({ field, path: `recipients[${i}].fields[${j}]` })),
+  );
+
+  if (!params.name) {
+    issue('name', 'Is required');
+  }
+
+  if (!params.accountId) {
+    issue('accountId', 'Is required');
+  }
+
+  if (!params.documents?.length) {
+    issue('documents', 'Must contain at least one document');
+  }
+
+  const documentIds = duplicates((params.documents ?? []).map(v => v.id));
+  (params.documents ?? []).forEach((document, i) => {
+    if (document.id !== undefined && documentIds.has(document.id)) {
+      issue(`documents[${i}].id`, `Must be unique, ${document.id} is used by more than one document`);
+    }
+  });
+
+  if (!params.draft && !recipients.some(v => (v.type ?? RecipientType.Signer) === RecipientType.Signer)) {
+    issue('recipients', 'Must contain at least one recipient with a type of signer');
+  }
+
+  recipients.forEach((recipient, i) => {
+    const path = `recipients[${i}]`;
+    const isSigner = (recipient.type ?? RecipientType.Signer) === RecipientType.Signer;
+
+    if (!recipient.name) {
+      issue(`${path}.name`, 'Is required');
+    }
+
+    if (!recipient.email) {
+      issue(`${path}.email`, 'Is required');
+    }
+
+    if (recipient.mobile !== undefined && !E164_PATTERN.test(recipient.mobile)) {
+      issue(`${path}.mobile`, 'Must be in E.164 format, for example +61412345678');
+    }
+
+    if (params.draft && recipient.fields?.length) {
+      issue(`${path}.fields`, 'Fields are not supported when creating a draft envelope');
+    } else if (!isSigner && recipient.fields?.length) {
+      issue(`${path}.fields`, 'Fields can only be supplied when the recipient type is signer');
+    } else if (!params.draft && isSigner && !recipient.fields?.length) {
+      issue(`${path}.fields`, 'Signers must contain at least one field');
+    }
+  });
+
+  const fieldIds = duplicates(fields.map(v => v.field.id));
+  fields.forEach(({ field, path }) => {
+    // Checked at runtime as well as by the field types, since the parameters may not have been type checked.
+    const { fontSize, options } = field as { fontSize?: number; options?: unknown[] };
+    const hasAnchor = field.anchor !== undefined;
+    const hasCoordinates = [field.page, field.xCoordinate, field.yCoordinate].some(v => v !== undefined);
+
+    if (field.id !== undefined && fieldIds.has(field.id)) {
+      issue(`${path}.id`, `Must be unique, ${field.id} is used by more than one field`);
+    }
+
+    if (hasAnchor && hasCoordinates) {
+      issue(path, 'Must be placed using either an anchor or a page, xCoordinate and yCoordinate, not both');
+    } else if (
+      !hasAnchor &&
+      (field.page === undefined || field.xCoordinate === undefined || field.yCoordinate === undefined)
+    ) {
+      issue(path, 'Must be placed using either an anchor or a page, xCoordinate and yCoordinate');
+    }
+
+    if (fontSize !== undefined && field.type !== FieldType.Date) {
+      issue(`${path}.fontSize`, 'Font size can only be supplied when the field type is date');
+    } else if (fontSize !== undefined && (fontSize < MIN_FONT_SIZE || fontSize > MAX_FONT_SIZE)) {
+      issue(`${path}.fontSize`, `Must be between ${MIN_FONT_SIZE} and ${MAX_FONT_SIZE}`);
+    }
+
+    if (options !== undefined && field.type !== FieldType.Dropdown) {
+      issue(`${path}.options`, 'Options can only be supplied when the field type is dropdown');
+    } else if (field.type === FieldType.Dropdown && !options?.length) {
+      issue(`${path}.options`, 'Dropdown fields must contain at least one option');
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Validates the parameters for updating an envelope against the changes allowed while the envelope has its current status, returning the issues found.
+ * @param status The envelope's current status.
+ * @param params The parameters for updating the envelope.
+ */
+export const validateEnvelopeUpdateParams = (status: EnvelopeStatus, params: EnvelopeUpdateParams) => {
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  if (status === EnvelopeStatus.Completed || status === EnvelopeStatus.Voided) {
+    issue('', `Envelopes cannot be updated once they are ${status}`);
+  } else if (status !== EnvelopeStatus.Draft && params.groupId !== undefined) {
+    issue('groupId', 'Can only be changed while the envelope is a draft');
+  }
+
+  if (params.name !== undefined && !params.name) {
+    issue('name', 'Must not be empty');
+  }
+
+  return issues;
+};
+
+/**
+ * Validates the parameters for using a template against the template's roles, returning the issues found.
+ * @param template The template being used to create the envelope.
+ * @param params The parameters for using the template.
+ */
+export const validateTemplateUseParams = (template: Template, params: TemplateUseParams) => {
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+  const recipients = params.recipients ?? [];
+  const roleIds = duplicates(recipients.map(v => v.roleId));
+
+  if (!params.accountId) {
+    issue('accountId', 'Is required');
+  }
+
+  if (!params.name && !template.envelopeName) {
+    issue('name', 'Is required as the template does not have a default envelope name');
+  }
+
+  if (recipients.length !== template.roles.length) {
+    issue(
+      'recipients',
+      `Must contain ${template.roles.length} recipients to match the roles of the template, ${recipients.length} were supplied`,
+    );
+  }
+
+  recipients.forEach((recipient, i) => {
+    const path = `recipients[${i}]`;
+    const role = template.roles.find(v => v.id === recipient.roleId);
+
+    if (!role) {
+      issue(`${path}.roleId`, `Must be the id of one of the template's roles, ${recipient.roleId} was supplied`);
+    } else if (roleIds.has(recipient.roleId)) {
+      issue(`${path}.roleId`, `Must be unique, ${recipient.roleId} is used by more than one recipient`);
+    }
+
+    if (role && !recipient.name && !role.recipientName) {
+      issue(`${path}.name`, `Is required as the ${role.name} role does not have a default recipient name`);
+    }
+
+    if (role && !recipient.email && !role.recipientEmail) {
+      issue(`${path}.email`, `Is required as the ${role.name} role does not have a default recipient email`);
+    }
+
+    if (recipient.mobile !== undefined && !E164_PATTERN.test(recipient.mobile)) {
+      issue(`${path}.mobile`, 'Must be in E.164 format, for example +61412345678');
+    }
+  });
+
+  template.roles
+    .filter(role => !recipients.some(v => v.roleId === role.id))
+    .forEach(role => issue('recipients', `Must contain a recipient for the ${role.name} role (${role.id})`));
+
+  return issues;
+};
@@ -0,0 +1,391 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Annature } from './client';
+import { Envelope, envelopeDates } from './envelopes';
+import { AnnatureSignatureVerificationError, AnnatureValidationError } from './errors';
+import { Recipient, recipientDates } from './recipients';
+import { camelCase, DatePaths, datifyIsoStrings, nestDatePaths } from './utils';
+
+export enum WebhookEventType {
+  EnvelopeSent = 'envelope_sent',
+  EnvelopeCompleted = 'envelope_completed',
+  EnvelopeVoided = 'envelope_voided',
+  EnvelopeDeclined = 'envelope_declined',
+  RecipientSent = 'recipient_sent',
+  RecipientCompleted = 'recipient_completed',
+  RecipientDeclined = 'recipient_declined',
+  RecipientFailed = 'recipient_failed',
+  RecipientTokenRequest = 'recipient_token_request',
+}
+
+type BaseWebhookEvent<T extends WebhookEventType, D> = {
+  /** The unique identifier for the event. Redeliveries of the same event share the same identifier. */
+  id: string;
+  /** The event type. */
+  type: T;
+  /** Date and time at which the event was created. */
+  created: Date;
+  /** The object the event relates to, as it was at the time the event was created. */
+  data: D;
+};
+
+export type EnvelopeWebhookEvent = BaseWebhookEvent<
+  | WebhookEventType.EnvelopeSent
+  | WebhookEventType.EnvelopeCompleted
+  | WebhookEventType.EnvelopeVoided
+  | WebhookEventType.EnvelopeDeclined,
+  Envelope
+>;
+
+export type RecipientWebhookEvent = BaseWebhookEvent<
+  | WebhookEventType.RecipientSent
+  | WebhookEventType.RecipientCompleted
+  | WebhookEventType.RecipientDeclined
+  | WebhookEventType.RecipientFailed,
+  Recipient & { envelopeId: string }
+>;
+
+/**
+ * Created when a muted recipient attempts to access an envelope using an expired signing token and requests a new one. A new token can be generated with
+ * `recipients.retrieveToken` and delivered to the recipient by your own means.
+ */
+export type RecipientTokenRequestWebhookEvent = BaseWebhookEvent<
+  WebhookEventType.RecipientTokenRequest,
+  Recipient & { envelopeId: string }
+>;
+
+export type WebhookEvent = EnvelopeWebhookEvent | RecipientWebhookEvent | RecipientTokenRequestWebhookEvent;
+
+export type WebhookHeaders = { [key: string]: string | string[] | undefined };
+
+export type WebhookConstructEventOptions = {
+  /** The number of seconds a delivery's timestamp may differ from the current time before it is rejected. Defaults to 300. */
+  tolerance?: number;
+};
+
+/** The header containing the hex encoded HMAC-SHA256 signature of the delivery. */
+export const SIGNATURE_HEADER = 'x-annature-signature';
+/** The header containing the unix timestamp, in seconds, at which the delivery was signed. */
+export const TIMESTAMP_HEADER = 'x-annature-timestamp';
+
+const DEFAULT_TOLERANCE = 300;
+
+const webhookEventDates = (type: WebhookEventType): DatePaths => [
+  'created',
+  ...nestDatePaths('data', type.startsWith('envelope_') ? envelopeDates : recipientDates),
+];
+
+const header = (headers: WebhookHeaders, name: string) => {
+  const key = Object.keys(headers).find(v => v.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Computes the signature of a webhook delivery. The payload is signed by computing an HMAC-SHA256 of the timestamp and raw body joined by a `.`, using the endpoint's
+ * signature as the key.
+ * @param rawBody The raw body of the delivery.
+ * @param signature The endpoint's webhook signature.
+ * @param timestamp The unix timestamp, in seconds, at which the delivery was signed.
+ */
+export const computeSignature = (rawBody: string | Buffer, signature: string, timestamp: number) =>
+  createHmac('sha256', signature).update(`${timestamp}.`).update(rawBody).digest('hex');
+
+const constructEvent = (
+  rawBody: string | Buffer,
+  headers: WebhookHeaders,
+  signature: string | string[],
+  options?: WebhookConstructEventOptions,
+): WebhookEvent => {
+  const signatures = typeof signature === 'string' ? [signature] : signature;
+  const received = header(headers, SIGNATURE_HEADER);
+  const timestamp = Number(header(headers, TIMESTAMP_HEADER));
+
+  if (!received) {
+    throw new AnnatureSignatureVerificationError(`Missing ${SIGNATURE_HEADER} header`);
+  }
+
+  if (!Number.isInteger(timestamp)) {
+    throw new AnnatureSignatureVerificationError(`Missing or invalid ${TIMESTAMP_HEADER} header`);
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > (options?.tolerance ?? DEFAULT_TOLERANCE)) {
+    throw new AnnatureSignatureVerificationError('Webhook timestamp is outside of the tolerance');
+  }
+
+  if (!signatures.length) {
+    throw new AnnatureSignatureVerificationError('No webhook signatures have been supplied or trusted');
+  }
+
+  const actual = Buffer.from(received, 'hex');
+  const matches = signatures.some(v => {
+    const expected = Buffer.from(computeSignature(rawBody, v, timestamp), 'hex');
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+
+  if (!matches) {
+    throw new AnnatureSignatureVerificationError('Webhook signature does not match');
+  }
+
+  const event = camelCase<WebhookEvent>(JSON.parse(rawBody.toString()));
+  const types: unknown[] = Object.values(WebhookEventType);
+
+  if (!types.includes(event?.type)) {
+    throw new AnnatureValidationError(`Unknown webhook event type ${event?.type}`, {
+      issues: [{ path: 'type', message: `Must be one of ${types.join(', ')}` }],
+    });
+  }
+
+  return datifyIsoStrings(event, webhookEventDates(event.type)) as WebhookEvent;
+};
+
+export type WebhookHandlers = {
+  [T in WebhookEventType]?: (event: Extract<WebhookEvent, { type: T }>) => void | Promise<void>;
+};
+
+/** Records the ids of the events that have been handled, so that redeliveries of an event are only handled once. */
+export type WebhookEventStore = {
+  /** Records the id of an event, returning false when it has already been recorded. */
+  add: (id: string) => boolean | Promise<boolean>;
+  /** Removes the id of an event whose handler failed, so that the redelivery is handled. */
+  delete: (id: string) => void | Promise<void>;
+};
+
+type WebhookHandlerSignature = string | string[] | (() => string[]);
+
+export type WebhookHandlerOptions = WebhookConstructEventOptions & {
+  /** The callbacks for each type of event. Events without a callback are acknowledged and otherwise ignored. */
+  handlers?: WebhookHandlers;
+  /** The store used to deduplicate redeliveries. Defaults to an in-memory store, which should be replaced by a shared store when running more than one process. */
+  store?: WebhookEventStore;
+} & (
+    | {
+        /**
+         * The endpoint's webhook signature, as returned when the endpoint was created. Several signatures can be supplied while rotating endpoints, or a function
+         * returning the signatures, such as `() => annature.webhooks.signatures()`, to verify against the signatures currently trusted by a client.
+         */
+        signature: WebhookHandlerSignature;
+        /** A client whose `webhooks.constructEvent` verifies deliveries, so that each event is also emitted to the listeners registered with `annature.on`. */
+        annature?: Pick<Annature, 'webhooks'>;
+      }
+    | {
+        /** Defaults to the signatures trusted by the client when not supplied. */
+        signature?: WebhookHandlerSignature;
+        annature: Pick<Annature, 'webhooks'>;
+      }
+  );
+
+export type WebhookHandlerResponse = {
+  /** The status code to respond with. Annature retries deliveries that are not responded to with a 2xx status code. */
+  status: number;
+  body: { received: boolean; duplicate?: boolean; error?: string };
+};
+
+/** The subset of a Node `IncomingMessage` used by the handler, including the raw body added by body parsers such as `express.raw()`. */
+type WebhookRequest = AsyncIterable<Buffer | string> & {
+  method?: string;
+  headers: WebhookHeaders;
+  readableEnded?: boolean;
+  body?: unknown;
+  rawBody?: unknown;
+};
+
+/** The subset of a Node `ServerResponse` used by the handler. */
+type WebhookResponse = {
+  statusCode: number;
+  setHeader: (name: string, value: string) => unknown;
+  end: (body: string) => unknown;
+};
+
+/** The subset of a Fastify reply used by the handler. */
+type FastifyReply = {
+  code: (status: number) => FastifyReply;
+  send: (body: unknown) => unknown;
+};
+
+const DEFAULT_STORE_SIZE = 10000;
+
+/**
+ * Creates an in-memory store of event ids, forgetting the oldest ids once `size` ids have been recorded.
+ * @param size The maximum number of ids recorded. Defaults to 10000.
+ */
+export const createMemoryEventStore = (size = DEFAULT_STORE_SIZE): WebhookEventStore => {
+  const ids = new Set<string>();
+
+  return {
+    add: id => {
+      if (ids.has(id)) {
+        return false;
+      }
+
+      ids.add(id);
+
+      if (ids.size > size) {
+        ids.delete(ids.values().next().value);
+      }
+
+      return true;
+    },
+    delete: id => void ids.delete(id),
+  };
+};
+
+/** Reads the raw body of a request, preferring one captured by a body parser as the request stream can only be read once. */
+const readRawBody = async (request: WebhookRequest) => {
+  for (const body of [request.rawBody, request.body]) {
+    if (Buffer.isBuffer(body) || typeof body === 'string') {
+      return body;
+    }
+  }
+
+  if (request.body !== undefined || request.readableEnded) {
+    throw new AnnatureSignatureVerificationError(
+      'The raw body of the request is not available, register a raw body parser such as express.raw() for the webhook route',
+    );
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of request) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Creates a handler for webhook deliveries that verifies each delivery, dispatches the event to the callback for its type and responds with the status code Annature
+ * expects.
+ *
+ * Deliveries that cannot be verified are rejected with 400 bad request. When a callback throws, the handler responds with 500 internal server error so that Annature
+ * retries the delivery. Redeliveries of an event that has already been handled are acknowledged without calling the callback again.
+ *
+ * When a client is supplied as `annature`, deliveries are verified by the client so that each event is also emitted to the listeners registered with `annature.on`.
+ *
+ * The handler can be used directly as a Node `http` request listener or as Express middleware, and `handler.fastify` as a Fastify route handler. The raw body is read
+ * from the request unless a body parser has already consumed it, in which case the parser must keep the body as a Buffer, for example `express.raw({ type:
+ * 'application/json' })`, or Fastify's `addContentTypeParser` with `parseAs: 'buffer'`.
+ * @example
+ * app.post(
+ *   '/webhooks/annature',
+ *   express.raw({ type: 'application/json' }),
+ *   createWebhookHandler({
+ *     signature: process.env.ANNATURE_WEBHOOK_SIGNATURE,
+ *     handlers: {
+ *       [WebhookEventType.EnvelopeCompleted]: event => archive(event.data.id),
+ *     },
+ *   }),
+ * );
+ */
+export const createWebhookHandler = (options: WebhookHandlerOptions) => {
+  const { signature, annature, handlers = {}, store = createMemoryEventStore(), ...constructEventOptions } = options;
+
+  /** Verifies and handles a delivery, returning the response to send. */
+  const handle = async (rawBody: string | Buffer, headers: WebhookHeaders): Promise<WebhookHandlerResponse> => {
+    let event: WebhookEvent;
+
+    try {
+      const signatures = typeof signature === 'function' ? signature() : signature;
+
+      event = annature
+        ? annature.webhooks.constructEvent(rawBody, headers, signatures, constructEventOptions)
+        : constructEvent(rawBody, headers, signatures!, constructEventOptions);
+    } catch (error: any) {
+      return { status: 400, body: { received: false, error: error.message } };
+    }
+
+    if (!(await store.add(event.id))) {
+      return { status: 200, body: { received: true, duplicate: true } };
+    }
+
+    try {
+      await (handlers[event.type] as ((event: WebhookEvent) => void | Promise<void>) | undefined)?.(event);
+    } catch (error: any) {
+      await store.delete(event.id);
+
+      return { status: 500, body: { received: false, error: error?.message ?? String(error) } };
+    }
+
+    return { status: 200, body: { received: true } };
+  };
+
+  const read = async (request: WebhookRequest): Promise<WebhookHandlerResponse> => {
+    if (request.method !== undefined && request.method !== 'POST') {
+      return { status: 405, body: { received: false, error: 'Webhooks must be delivered with the POST method' } };
+    }
+
+    try {
+      return await handle(await readRawBody(request), request.headers);
+    } catch (error: any) {
+      return {
+        status: error instanceof AnnatureSignatureVerificationError ? 400 : 500,
+        body: { received: false, error: error.message },
+      };
+    }
+  };
+
+  return Object.assign(
+    async (request: WebhookRequest, response: WebhookResponse) => {
+      const { status, body } = await read(request);
+
+      response.statusCode = status;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(body));
+    },
+    {
+      handle,
+      /** Handles a delivery as a Fastify route handler. */
+      fastify: async (request: WebhookRequest & { raw?: WebhookRequest }, reply: FastifyReply) => {
+        const { status, body } = await read(
+          request.body === undefined && request.rawBody === undefined && request.raw ? request.raw : request,
+        );
+
+        reply.code(status).send(body);
+      },
+    },
+  );
+};
+
+export default (onEvent?: (event: WebhookEvent) => void) => {
+  const trusted = new Set<string>();
+
+  return {
+    /**
+     * Verifies a webhook delivery and returns the event it contains.
+     *
+     * The raw body must be supplied exactly as it was received, before any JSON parsing, otherwise the signature will not match. Deliveries with a timestamp outside of
+     * the tolerance are rejected, which prevents a captured delivery from being replayed at a later time. A verified delivery without a known event type is rejected
+     * with an `AnnatureValidationError`.
+     * @param rawBody The raw body of the delivery.
+     * @param headers The headers of the delivery.
+     * @param signature The endpoint's webhook signature, as returned when the endpoint was created, or several signatures any of which may match. Defaults to the
+     * trusted signatures.
+     */
+    constructEvent: (
+      rawBody: string | Buffer,
+      headers: WebhookHeaders,
+      signature: string | string[] = [...trusted],
+      options?: WebhookConstructEventOptions,
+    ) => {
+      const event = constructEvent(rawBody, headers, signature, options);
+
+      onEvent?.(event);
+
+      return event;
+    },
+    /**
+     * Trusts an endpoint's webhook signature, so that deliveries signed with it are verified when no signature is supplied to `constructEvent`. Signatures are trusted
+     * automatically by `endpoints.ensure` and `endpoints.rotate`.
+     * @param signature The endpoint's webhook signature.
+     */
+    trust: (signature: string) => void trusted.add(signature),
+    /**
+     * Stops trusting an endpoint's webhook signature.
+     * @param signature The endpoint's webhook signature.
+     */
+    distrust: (signature: string) => void trusted.delete(signature),
+    /** Returns the trusted webhook signatures. */
+    signatures: () => [...trusted],
+  };
+};
@@ -0,0 +1,24 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { EnvelopeBuilder } from '../src/builder';
+import { AnnatureValidationError } from '../src/errors';
+
+const placement = { page: 1, x: 10, y: 10 };
+
+test('EnvelopeBuilder rejects a field added before any signer', () => {
+  assert.throws(
+    () => new EnvelopeBuilder().signatureAt(placement),
+    (error: unknown) => error instanceof AnnatureValidationError && error.issues[0].path === 'recipients',
+  );
+});
+
+test('EnvelopeBuilder rejects a field added after a recipient that does not sign', () => {
+  const builder = new EnvelopeBuilder()
+    .addSigner({ name: 'Jo', email: 'jo@example.com' })
+    .addViewer({ name: 'Sam', email: 'sam@example.com' });
+
+  assert.throws(
+    () => builder.signatureAt(placement),
+    (error: unknown) => error instanceof AnnatureValidationError && error.issues[0].path === 'recipients[1].fields',
+  );
+});
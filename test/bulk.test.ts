@@ -0,0 +1,112 @@
+import { strict as assert } from 'assert';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import test from 'node:test';
+import bulkUse from '../src/bulk';
+import { Envelope } from '../src/envelopes';
+import { AnnatureError } from '../src/errors';
+import { TemplateUseParams } from '../src/templates';
+import { RequestOptions } from '../src/utils';
+
+const params = { accountId: 'acc_1', recipients: [] } as unknown as TemplateUseParams;
+
+/** Records the idempotency key of each use, failing with the error returned by `fail` for the attempt. */
+const stub = (fail: (index: number, key: string) => Error | undefined = () => undefined) => {
+  const keys: string[] = [];
+  const use = async (_: unknown, row: TemplateUseParams, options?: RequestOptions) => {
+    const key = options!.idempotencyKey!;
+    const error = fail(keys.length, key);
+
+    keys.push(key);
+
+    if (error) {
+      throw error;
+    }
+
+    return { id: `env_${key}` } as Envelope;
+  };
+
+  return { use, keys };
+};
+
+const withCheckpoint = async (run: (path: string) => Promise<void>) => {
+  const dir = await mkdtemp(join(tmpdir(), 'annature-bulk-'));
+
+  try {
+    await run(join(dir, 'checkpoint.json'));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+test('bulkUse records a row once when onProgress throws', async () => {
+  await withCheckpoint(async checkpoint => {
+    const { use, keys } = stub(index => (index === 1 ? new AnnatureError('Invalid', { status: 400 }) : undefined));
+    const onProgress = () => {
+      throw Error('Progress failed');
+    };
+    const warnings: Error[] = [];
+    const warn = (warning: Error) => warnings.push(warning);
+
+    process.on('warning', warn);
+
+    try {
+      const report = await bulkUse(use, 'tpl_1', [params, params], { concurrency: 1, onProgress, checkpoint });
+
+      assert.deepEqual(
+        report.results.map(v => [v.index, v.status]),
+        [
+          [0, 'created'],
+          [1, 'failed'],
+        ],
+      );
+
+      const resumed = await bulkUse(use, 'tpl_1', [params, params], { concurrency: 1, checkpoint });
+
+      assert.deepEqual(
+        resumed.results.map(v => [v.index, v.status, v.resumed]),
+        [
+          [0, 'created', true],
+          [1, 'created', false],
+        ],
+      );
+      assert.equal(keys.length, 3);
+    } finally {
+      await new Promise(resolve => setImmediate(resolve));
+      process.off('warning', warn);
+    }
+
+    assert.deepEqual(
+      warnings.map(v => v.message),
+      ['Progress failed', 'Progress failed'],
+    );
+  });
+});
+
+test('bulkUse reuses the idempotency key of a row that failed without a rejection', async () => {
+  await withCheckpoint(async checkpoint => {
+    const failures = [new AnnatureError('Server error', { status: 500 }), new AnnatureError('Network error')];
+    const { use, keys } = stub(index => failures[index]);
+
+    for (let i = 0; i < 3; i++) {
+      await bulkUse(use, 'tpl_1', [params], { checkpoint });
+    }
+
+    assert.equal(new Set(keys).size, 1);
+    assert.deepEqual(JSON.parse(await readFile(checkpoint, 'utf8')).rows[0], { envelopeId: `env_${keys[0]}` });
+  });
+});
+
+test('bulkUse uses a new idempotency key for a row that was rejected', async () => {
+  await withCheckpoint(async checkpoint => {
+    const { use, keys } = stub(index => (index < 2 ? new AnnatureError('Invalid', { status: 422 }) : undefined));
+
+    for (let i = 0; i < 3; i++) {
+      await bulkUse(use, 'tpl_1', [params], { checkpoint });
+    }
+
+    assert.equal(new Set(keys).size, 3);
+    assert.match(keys[2], /-0-2$/);
+  });
+});
@@ -0,0 +1,36 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { datifyIsoStrings, isoStringifyDates } from '../src/utils';
+
+test('isoStringifyDates converts nested dates to ISO strings', () => {
+  const date = new Date('2024-01-31T09:00:00.000Z');
+
+  assert.deepEqual(isoStringifyDates({ created: date, recipients: [{ sent: date }], name: 'a' }), {
+    created: '2024-01-31T09:00:00.000Z',
+    recipients: [{ sent: '2024-01-31T09:00:00.000Z' }],
+    name: 'a',
+  });
+});
+
+test('datifyIsoStrings revives the dates at each path', () => {
+  const iso = '2024-01-31T09:00:00.000Z';
+  const revived = datifyIsoStrings({ created: iso, name: iso, recipients: [{ sent: iso }, { sent: null }] }, [
+    'created',
+    'recipients[].sent',
+    'missing.created',
+  ]);
+
+  assert.deepEqual(revived, {
+    created: new Date(iso),
+    name: iso,
+    recipients: [{ sent: new Date(iso) }, { sent: null }],
+  });
+});
+
+test('datifyIsoStrings ignores paths that do not match the shape of the object', () => {
+  assert.deepEqual(datifyIsoStrings({ recipients: null, created: undefined }, ['recipients[].sent', 'created.at']), {
+    recipients: null,
+    created: undefined,
+  });
+  assert.deepEqual(datifyIsoStrings(undefined, ['created']), {});
+});
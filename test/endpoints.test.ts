@@ -0,0 +1,87 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { AnnatureNotFoundError } from '../src/errors';
+import { MockAnnature } from '../src/mock';
+
+const URL = 'https://example.com/webhooks/annature';
+
+test('endpoints.ensure creates an endpoint once and trusts its signature', async () => {
+  const annature = new MockAnnature().client();
+  const created = await annature.endpoints.ensure(URL);
+  const found = await annature.endpoints.ensure(URL);
+
+  assert.equal(found.id, created.id);
+  assert.deepEqual(
+    (await annature.endpoints.list()).map(v => v.id),
+    [created.id],
+  );
+  assert.deepEqual(annature.webhooks.signatures(), [created.signature]);
+});
+
+test('endpoints.ensure reactivates a deactivated endpoint', async () => {
+  const annature = new MockAnnature().client();
+  const created = await annature.endpoints.ensure(URL);
+
+  await annature.endpoints.update(created.id, { active: false });
+
+  const found = await annature.endpoints.ensure(URL);
+
+  assert.equal(found.id, created.id);
+  assert.equal(found.active, true);
+});
+
+test('endpoints.rotate trusts both signatures during the overlap, then removes the old endpoint', async () => {
+  const annature = new MockAnnature().client();
+  const previous = await annature.endpoints.ensure(URL);
+  let overlap: Promise<{ signatures: string[]; active?: boolean }> | undefined;
+  const endpoint = await annature.endpoints.rotate(URL, {
+    overlap: 100,
+    // onCreate is called before the overlap starts, so the state is sampled part way through it.
+    onCreate: () => {
+      overlap = new Promise(resolve =>
+        setTimeout(async () => {
+          const signatures = annature.webhooks.signatures();
+
+          resolve({ signatures, active: (await annature.endpoints.retrieve(previous.id))?.active });
+        }, 20),
+      );
+    },
+  });
+  const { signatures, active } = await overlap!;
+
+  assert.notEqual(endpoint.signature, previous.signature);
+  assert.deepEqual(new Set(signatures), new Set([previous.signature, endpoint.signature]));
+  assert.equal(active, true);
+  assert.deepEqual(annature.webhooks.signatures(), [endpoint.signature]);
+  assert.deepEqual(
+    (await annature.endpoints.list()).map(v => v.id),
+    [endpoint.id],
+  );
+  assert.equal(await annature.endpoints.retrieve(previous.id), undefined);
+});
+
+test('endpoints.rotate deactivates the old endpoint before deleting it', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const previous = await annature.endpoints.ensure(URL);
+  const requests: string[] = [];
+
+  annature.onRequest(request => void requests.push(`${request.method?.toUpperCase()} ${request.url}`));
+  await annature.endpoints.rotate(URL, { overlap: 0 });
+
+  assert.deepEqual(requests.slice(-2), [`PUT endpoints/${previous.id}`, `DELETE endpoints/${previous.id}`]);
+  await assert.rejects(annature.endpoints.delete(previous.id), AnnatureNotFoundError);
+});
+
+test('endpoints.rotate leaves the old endpoint in place when aborted during the overlap', async () => {
+  const annature = new MockAnnature().client();
+  const previous = await annature.endpoints.ensure(URL);
+  const controller = new AbortController();
+
+  await assert.rejects(
+    annature.endpoints.rotate(URL, { overlap: 1000, signal: controller.signal, onCreate: () => controller.abort() }),
+    { name: 'AbortError' },
+  );
+  assert.equal((await annature.endpoints.retrieve(previous.id))?.active, true);
+  assert.ok(annature.webhooks.signatures().includes(previous.signature));
+});
@@ -0,0 +1,56 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { EnvelopeStatus } from '../src/envelopes';
+import { AnnatureTimeoutError } from '../src/errors';
+import { MockAnnature } from '../src/mock';
+import { createEnvelope } from './helpers';
+
+test('envelopes.waitForStatus retrieves the envelope once more at the deadline before timing out', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const envelope = await createEnvelope(annature, mock);
+  const requests: number[] = [];
+  const started = Date.now();
+
+  annature.onRequest(() => void requests.push(Date.now() - started));
+
+  await assert.rejects(
+    annature.envelopes.waitForStatus(envelope.id, [EnvelopeStatus.Completed], { interval: 1000, timeout: 50 }),
+    AnnatureTimeoutError,
+  );
+  assert.equal(requests.length, 2);
+  assert.ok(requests[1] >= 50 && requests[1] < 1000);
+});
+
+test('envelopes.waitForStatus resolves when the envelope reaches a status at the deadline', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const envelope = await createEnvelope(annature, mock);
+
+  setTimeout(() => envelope.recipients.forEach(v => mock.sign(v.id)), 10);
+
+  const completed = await annature.envelopes.waitForStatus(envelope.id, [EnvelopeStatus.Completed], {
+    interval: 1000,
+    timeout: 50,
+  });
+
+  assert.equal(completed.status, EnvelopeStatus.Completed);
+});
+
+test('envelopes.waitForStatus aborts the request in flight', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const envelope = await createEnvelope(annature, mock);
+  const controller = new AbortController();
+
+  let responses = 0;
+
+  annature.onRequest(() => controller.abort());
+  annature.onResponse(() => void responses++);
+
+  await assert.rejects(
+    annature.envelopes.waitForStatus(envelope.id, [EnvelopeStatus.Completed], { signal: controller.signal }),
+    { name: 'AbortError' },
+  );
+  assert.equal(responses, 0);
+});
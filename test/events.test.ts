@@ -0,0 +1,187 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { EnvelopeStatus } from '../src/envelopes';
+import { AnnatureTimeoutError } from '../src/errors';
+import { AnnatureEventName, EnvelopeTransition, RecipientTransition } from '../src/events';
+import { MockAnnature } from '../src/mock';
+import { RecipientStatus } from '../src/recipients';
+import { isoStringifyDates, snakeCase } from '../src/utils';
+import {
+  computeSignature,
+  createWebhookHandler,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookEventType,
+} from '../src/webhooks';
+import { createEnvelope, receiveWebhooks } from './helpers';
+
+const EVENT_NAMES: AnnatureEventName[] = [
+  'envelope.sent',
+  'envelope.completed',
+  'recipient.sent',
+  'recipient.completed',
+];
+
+/** Records the transitions emitted by the client for each event. */
+const record = (annature: ReturnType<MockAnnature['client']>) => {
+  const emitted: { name: AnnatureEventName; transition: EnvelopeTransition | RecipientTransition }[] = [];
+
+  for (const name of EVENT_NAMES) {
+    annature.on(
+      name,
+      (transition: EnvelopeTransition | RecipientTransition) => void emitted.push({ name, transition }),
+    );
+  }
+
+  return emitted;
+};
+
+test('a transition received by webhook and detected by polling is emitted once', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const handler = createWebhookHandler({ annature });
+  const server = await receiveWebhooks(handler.handle);
+  const emitted = record(annature);
+
+  try {
+    await annature.endpoints.ensure(server.url);
+
+    const envelope = await createEnvelope(annature, mock);
+    const watching = annature.watch(envelope.id, { interval: 10 });
+
+    await mock.flush();
+    mock.sign(envelope.recipients[0].id);
+    // Changes are compared by their dates, which are only the same when they happen within the same millisecond.
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mock.sign(envelope.recipients[1].id);
+    await mock.flush();
+    await watching;
+  } finally {
+    await server.close();
+  }
+
+  const count = (name: AnnatureEventName) => emitted.filter(v => v.name === name).length;
+
+  assert.ok(mock.deliveries.length);
+  assert.deepEqual(new Set(emitted.map(v => v.transition.source)), new Set(['webhook', 'poll']));
+  assert.equal(count('envelope.sent'), 1);
+  assert.equal(count('envelope.completed'), 1);
+  assert.equal(count('recipient.sent'), 2);
+  assert.equal(count('recipient.completed'), 2);
+});
+
+test('a webhook delivered after a later change was detected by polling is not emitted', async () => {
+  const mock = new MockAnnature({ deliverWebhooks: false });
+  const annature = mock.client();
+  const emitted = record(annature);
+  const envelope = await createEnvelope(annature, mock);
+
+  mock.sign(envelope.recipients[0].id);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  mock.sign(envelope.recipients[1].id);
+  await annature.watch(envelope.id);
+
+  const sent = mock.events.find(
+    v => v.type === WebhookEventType.RecipientSent && v.data.id === envelope.recipients[1].id,
+  )!;
+  const body = JSON.stringify(snakeCase(isoStringifyDates(sent)));
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  annature.webhooks.trust('whsec_test');
+  annature.webhooks.constructEvent(body, {
+    [SIGNATURE_HEADER]: computeSignature(body, 'whsec_test', timestamp),
+    [TIMESTAMP_HEADER]: String(timestamp),
+  });
+
+  assert.deepEqual(
+    emitted.filter(v => v.transition.after.id === envelope.recipients[1].id).map(v => v.name),
+    ['recipient.completed'],
+  );
+});
+
+test('transitions detected by polling include the object before and after the change', async () => {
+  const mock = new MockAnnature({ deliverWebhooks: false });
+  const annature = mock.client();
+  const emitted = record(annature);
+  const envelope = await createEnvelope(annature, mock);
+  const [recipient] = envelope.recipients;
+  const retrieved = new Promise<void>(resolve => annature.onResponse(() => resolve()));
+  const watching = annature.watch(envelope.id, { interval: 10 });
+
+  await retrieved;
+  mock.sign(recipient.id);
+
+  const completed = new Promise<RecipientTransition>(resolve => annature.once('recipient.completed', resolve));
+  const { source, before, after } = await completed;
+
+  assert.equal(source, 'poll');
+  assert.equal(before?.status, RecipientStatus.Send);
+  assert.equal(after.status, RecipientStatus.Completed);
+  assert.equal(after.id, recipient.id);
+  assert.equal(after.envelopeId, envelope.id);
+
+  mock.sign(envelope.recipients[1].id);
+  await watching;
+
+  const transition = emitted.find(v => v.name === 'envelope.completed')!.transition as EnvelopeTransition;
+
+  assert.equal(transition.before?.status, EnvelopeStatus.Sent);
+  assert.equal(transition.after.status, EnvelopeStatus.Completed);
+});
+
+test('transitions received by webhook only include the object after the change', async () => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  const handler = createWebhookHandler({ annature });
+  const server = await receiveWebhooks(handler.handle);
+  const emitted = record(annature);
+
+  try {
+    await annature.endpoints.ensure(server.url);
+
+    const envelope = await createEnvelope(annature, mock);
+
+    mock.sign(envelope.recipients[0].id);
+    await mock.flush();
+
+    const { transition } = emitted.find(v => v.name === 'recipient.completed')!;
+
+    assert.equal(transition.source, 'webhook');
+    assert.equal(transition.before, undefined);
+    assert.equal(transition.after.id, envelope.recipients[0].id);
+    assert.equal((transition as RecipientTransition).after.envelopeId, envelope.id);
+  } finally {
+    await server.close();
+  }
+});
+
+test('watch polls once more at the deadline before timing out', async () => {
+  const mock = new MockAnnature({ deliverWebhooks: false });
+  const annature = mock.client();
+  const emitted = record(annature);
+  const envelope = await createEnvelope(annature, mock);
+  const requests: number[] = [];
+  const started = Date.now();
+
+  annature.onRequest(() => void requests.push(Date.now() - started));
+  setTimeout(() => mock.sign(envelope.recipients[0].id), 10);
+
+  await assert.rejects(annature.watch(envelope.id, { interval: 1000, timeout: 50 }), AnnatureTimeoutError);
+  assert.equal(requests.length, 2);
+  assert.ok(requests[1] >= 50 && requests[1] < 1000);
+  assert.ok(emitted.some(v => v.name === 'recipient.completed'));
+});
+
+test('watch aborts the request in flight', async () => {
+  const mock = new MockAnnature({ deliverWebhooks: false });
+  const annature = mock.client();
+  const envelope = await createEnvelope(annature, mock);
+  const controller = new AbortController();
+  let responses = 0;
+
+  annature.onRequest(() => controller.abort());
+  annature.onResponse(() => void responses++);
+
+  await assert.rejects(annature.watch(envelope.id, { signal: controller.signal }), { name: 'AbortError' });
+  assert.equal(responses, 0);
+});
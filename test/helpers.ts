@@ -0,0 +1,58 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Annature } from '../src/client';
+import { FieldType } from '../src/fields';
+import { MockAnnature } from '../src/mock';
+import { WebhookHandlerResponse, WebhookHeaders } from '../src/webhooks';
+
+export type ReceivedDelivery = {
+  rawBody: Buffer;
+  headers: WebhookHeaders;
+};
+
+/** Creates an envelope with two signers, sending it unless `draft` is true. */
+export const createEnvelope = (annature: Annature, mock: MockAnnature, draft = false) =>
+  annature.envelopes.create({
+    name: 'Employment contract',
+    accountId: mock.account.id,
+    draft,
+    documents: [{ name: 'contract.pdf', base: Buffer.from('%PDF-1.4 contract') }],
+    recipients: ['Jo', 'Sam'].map((name, i) => ({
+      name,
+      email: `${name.toLowerCase()}@example.com`,
+      order: i + 1,
+      fields: [{ type: FieldType.Signature, documentIndex: 0, page: 1, xCoordinate: 10, yCoordinate: 10 }],
+    })),
+  });
+
+/**
+ * Serves a webhook handler over HTTP on a random port, recording each delivery so that it can be delivered again.
+ * @param handle Handles a delivery, returning the response to send.
+ */
+export const receiveWebhooks = async (
+  handle: (rawBody: Buffer, headers: WebhookHeaders) => Promise<WebhookHandlerResponse>,
+) => {
+  const received: ReceivedDelivery[] = [];
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of request) {
+      chunks.push(chunk);
+    }
+
+    const delivery = { rawBody: Buffer.concat(chunks), headers: request.headers };
+    const { status, body } = await handle(delivery.rawBody, delivery.headers);
+
+    received.push(delivery);
+    response.statusCode = status;
+    response.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`,
+    received,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
@@ -0,0 +1,121 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { normaliseMobile, parseEnvelopeRecipients, parseTemplateRecipients } from '../src/import';
+import { RecipientType } from '../src/recipients';
+import { Template } from '../src/templates';
+
+test('normaliseMobile converts Australian mobile numbers to E.164 format', () => {
+  assert.equal(normaliseMobile('0412 345 678'), '+61412345678');
+  assert.equal(normaliseMobile('61412345678'), '+61412345678');
+  assert.equal(normaliseMobile('412345678'), '+61412345678');
+  assert.equal(normaliseMobile('+64 21 123 4567'), '+64211234567');
+  assert.equal(normaliseMobile('12345'), undefined);
+});
+
+test('parseEnvelopeRecipients parses quoted CSV cells, CRLF line endings and a byte order mark', async () => {
+  const csv =
+    '\uFEFFName,Email,Role,Order\r\n"Smith, Jo",jo@example.com,Viewer,2\r\n"Sam ""Sammy"" Lee",sam@example.com,,1\r\n\r\n';
+  const { recipients, issues } = await parseEnvelopeRecipients(csv);
+
+  assert.deepEqual(issues, []);
+  assert.deepEqual(recipients, [
+    {
+      name: 'Smith, Jo',
+      email: 'jo@example.com',
+      mobile: undefined,
+      password: undefined,
+      message: undefined,
+      order: 2,
+      type: RecipientType.Viewer,
+    },
+    {
+      name: 'Sam "Sammy" Lee',
+      email: 'sam@example.com',
+      mobile: undefined,
+      password: undefined,
+      message: undefined,
+      order: 1,
+      type: RecipientType.Signer,
+    },
+  ]);
+});
+
+test('parseEnvelopeRecipients reads the configured columns', async () => {
+  const csv = 'Full Name,Email Address,Phone\nJo,jo@example.com,0412 345 678\n';
+  const { recipients } = await parseEnvelopeRecipients(csv, {
+    columns: { name: 'Full Name', email: 'email address', mobile: 'Phone' },
+  });
+
+  assert.equal(recipients[0].name, 'Jo');
+  assert.equal(recipients[0].email, 'jo@example.com');
+  assert.equal(recipients[0].mobile, '+61412345678');
+});
+
+test('parseEnvelopeRecipients reports the issues of each row and omits their recipients', async () => {
+  const json = JSON.stringify([
+    { name: 'Jo', email: 'jo@example.com' },
+    { email: 'JO@example.com', order: 0 },
+    { name: 'Sam', email: 'not an email', mobile: '123', role: 'witness' },
+  ]);
+  const { recipients, issues } = await parseEnvelopeRecipients(json);
+
+  assert.deepEqual(
+    recipients.map(v => v.name),
+    ['Jo'],
+  );
+  assert.deepEqual(
+    issues.map(v => [v.row, v.path]),
+    [
+      [2, 'rows[1].name'],
+      [2, 'rows[1].order'],
+      [2, 'rows[1].email'],
+      [3, 'rows[2].role'],
+      [3, 'rows[2].email'],
+      [3, 'rows[2].mobile'],
+    ],
+  );
+  assert.match(issues[2].message, /is a duplicate of row 1/);
+});
+
+test('parseEnvelopeRecipients reports rows of a JSON list that are not objects', async () => {
+  const { recipients, issues } = await parseEnvelopeRecipients('[null, {"name": "Jo", "email": "jo@example.com"}, 5]');
+
+  assert.equal(recipients.length, 1);
+  assert.deepEqual(issues, [
+    { path: 'rows[0]', message: 'Must be an object', row: 1 },
+    { path: 'rows[2]', message: 'Must be an object', row: 3 },
+  ]);
+});
+
+test('parseEnvelopeRecipients rejects JSON that is not an array', async () => {
+  await assert.rejects(parseEnvelopeRecipients('{}', { format: 'json' }), /must contain an array of objects/);
+});
+
+test('parseTemplateRecipients resolves roles by name and uses their defaults', async () => {
+  const template = {
+    roles: [
+      { id: 'role_1', name: 'Employee' },
+      { id: 'role_2', name: 'Manager', recipientName: 'Sam Manager', recipientEmail: 'sam@example.com' },
+    ],
+  } as Template;
+  const rows = [
+    { role: 'employee', name: 'Jo', email: 'jo@example.com' },
+    { role: 'role_2' },
+    { role: 'Witness' },
+    { role: 'Employee' },
+  ];
+  const { recipients, issues } = await parseTemplateRecipients(rows, { template });
+
+  assert.deepEqual(
+    recipients.map(v => v.roleId),
+    ['role_1', 'role_2'],
+  );
+  assert.deepEqual(
+    issues.map(v => [v.row, v.path]),
+    [
+      [3, 'rows[2].role'],
+      [4, 'rows[3].name'],
+      [4, 'rows[3].email'],
+    ],
+  );
+});
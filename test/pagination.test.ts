@@ -0,0 +1,82 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { AnnatureError } from '../src/errors';
+import { collect, paginate } from '../src/pagination';
+
+type Item = { id: string; created: Date };
+
+/** Creates items sorted most recent first, with `perDate` items sharing each creation date. */
+const items = (count: number, perDate = 1): Item[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `item_${i}`,
+    created: new Date(Date.UTC(2024, 0, 1) - Math.floor(i / perDate) * 1000),
+  }));
+
+/** Lists at most `limit` items created before the date, as the API does. */
+const lister = (all: Item[], limit: number) => {
+  const calls: (Date | undefined)[] = [];
+  const list = async (createdBefore?: Date) => {
+    calls.push(createdBefore);
+
+    return all.filter(v => !createdBefore || v.created < createdBefore).slice(0, limit);
+  };
+
+  return { list, calls };
+};
+
+test('paginate yields every item once when items share creation dates across windows', async () => {
+  const all = items(25, 3);
+  const { list } = lister(all, 10);
+  const results = await collect(paginate(list, 10));
+
+  assert.deepEqual(
+    results.map(v => v.id),
+    all.map(v => v.id),
+  );
+});
+
+test('paginate stops after a window smaller than the limit', async () => {
+  const { list, calls } = lister(items(5), 10);
+
+  assert.equal((await collect(paginate(list, 10))).length, 5);
+  assert.equal(calls.length, 1);
+});
+
+test('paginate starts from the supplied date', async () => {
+  const all = items(5);
+  const { list } = lister(all, 10);
+
+  assert.deepEqual(
+    (await collect(paginate(list, 10, all[2].created))).map(v => v.id),
+    ['item_3', 'item_4'],
+  );
+});
+
+test('paginate throws when the endpoint ignores the creation date filter', async () => {
+  const all = items(20);
+
+  await assert.rejects(collect(paginate(async () => all.slice(0, 10), 10)), AnnatureError);
+});
+
+test('paginate throws when results of the previous window are returned again', async () => {
+  const all = items(20);
+  // Returns results of the first window again, with creation dates that appear to be older.
+  const repeated = all.slice(1, 11).map(v => ({ ...v, created: new Date(v.created.getTime() - 10000) }));
+  const list = async (createdBefore?: Date) => (createdBefore ? repeated : all.slice(0, 10));
+
+  await assert.rejects(collect(paginate(list, 10)), /previous window were returned again/);
+});
+
+test('paginate throws when more items than the limit share a creation date', async () => {
+  const { list } = lister(items(20, 20), 10);
+
+  await assert.rejects(collect(paginate(list, 10)), /More than 10 results were created at/);
+});
+
+test('collect stops once the maximum has been collected', async () => {
+  const { list, calls } = lister(items(25), 10);
+
+  assert.equal((await collect(paginate(list, 10), 10)).length, 10);
+  assert.equal(calls.length, 1);
+  assert.deepEqual(await collect(paginate(list, 10), 0), []);
+});
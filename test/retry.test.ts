@@ -0,0 +1,108 @@
+import { strict as assert } from 'assert';
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import test from 'node:test';
+import retry, { defaultRetryPolicy } from '../src/retry';
+import { IDEMPOTENCY_KEY_HEADER, requestConfig } from '../src/utils';
+
+const policy = { ...defaultRetryPolicy, baseDelay: 1, maxDelay: 1000 };
+
+type Outcome = number | 'network' | 'canceled' | { status: number; headers: { [key: string]: string } };
+
+const withStatus = (status: number) => (error: AxiosError) => error.response?.status === status;
+
+/** Creates a client whose adapter responds with each outcome in turn, recording the config of every attempt. */
+const stub = (...outcomes: Outcome[]) => {
+  const attempts: AxiosRequestConfig[] = [];
+  const adapter = async (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    const outcome = outcomes[attempts.length] ?? 200;
+
+    attempts.push(config);
+
+    if (outcome === 'network') {
+      throw new AxiosError('socket hang up', 'ECONNRESET', config);
+    }
+
+    if (outcome === 'canceled') {
+      throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+    }
+
+    const { status, headers } = typeof outcome === 'number' ? { status: outcome, headers: {} } : outcome;
+    const response = { status, statusText: '', headers, config, data: {} };
+
+    if (status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        AxiosError.ERR_BAD_RESPONSE,
+        config,
+        {},
+        response,
+      );
+    }
+
+    return response;
+  };
+
+  return { client: axios.create({ adapter: retry(adapter, policy) }), attempts };
+};
+
+test('a POST without an idempotency key is not retried', async () => {
+  const { client, attempts } = stub(503);
+
+  await assert.rejects(client.post('envelopes', {}), withStatus(503));
+  assert.equal(attempts.length, 1);
+});
+
+test('a POST with an idempotency key is retried with the same key', async () => {
+  const { client, attempts } = stub('network', 503, 200);
+  const response = await client.post('envelopes', {}, requestConfig({ idempotencyKey: 'key_1' }));
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(
+    attempts.map(v => v.headers?.[IDEMPOTENCY_KEY_HEADER]),
+    ['key_1', 'key_1', 'key_1'],
+  );
+});
+
+test('GET requests are retried after server errors and network failures', async () => {
+  const { client, attempts } = stub(502, 'network', 200);
+
+  assert.equal((await client.get('envelopes')).status, 200);
+  assert.equal(attempts.length, 3);
+});
+
+test('requests are retried at most maxAttempts times', async () => {
+  const { client, attempts } = stub(500, 500, 500, 200);
+
+  await assert.rejects(client.get('envelopes'), withStatus(500));
+  assert.equal(attempts.length, policy.maxAttempts);
+});
+
+test('responses with a status outside of the policy are not retried', async () => {
+  const { client, attempts } = stub(400);
+
+  await assert.rejects(client.get('envelopes'), withStatus(400));
+  assert.equal(attempts.length, 1);
+});
+
+test('a Retry-After longer than maxDelay is not waited on', async () => {
+  const { client, attempts } = stub({ status: 429, headers: { 'retry-after': '5' } });
+  const started = Date.now();
+
+  await assert.rejects(client.get('envelopes'), withStatus(429));
+  assert.equal(attempts.length, 1);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('a Retry-After within maxDelay is waited on', async () => {
+  const { client, attempts } = stub({ status: 429, headers: { 'retry-after': '0' } }, 200);
+
+  assert.equal((await client.get('envelopes')).status, 200);
+  assert.equal(attempts.length, 2);
+});
+
+test('a canceled request is not retried', async () => {
+  const { client, attempts } = stub('canceled');
+
+  await assert.rejects(client.get('envelopes'), { code: AxiosError.ERR_CANCELED });
+  assert.equal(attempts.length, 1);
+});
@@ -0,0 +1,69 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { Envelope, EnvelopeStatus } from '../src/envelopes';
+import { Recipient, RecipientStatus } from '../src/recipients';
+import { envelopeChanges } from '../src/sync';
+import { WebhookEventType } from '../src/webhooks';
+
+const recipient = (id: string, status: RecipientStatus) => ({ id, status } as Recipient);
+
+const envelope = (status: EnvelopeStatus, recipients: Recipient[], declined?: Date) =>
+  ({ id: 'env_1', status, recipients, declined } as Envelope);
+
+test('envelopeChanges returns the changes that led to the current status when there is no previous snapshot', () => {
+  const changes = envelopeChanges(
+    undefined,
+    envelope(EnvelopeStatus.Sent, [
+      recipient('rec_1', RecipientStatus.Send),
+      recipient('rec_2', RecipientStatus.Pending),
+    ]),
+  );
+
+  assert.deepEqual(
+    changes.map(v => [v.type, v.data.id]),
+    [
+      [WebhookEventType.RecipientSent, 'rec_1'],
+      [WebhookEventType.EnvelopeSent, 'env_1'],
+    ],
+  );
+});
+
+test('envelopeChanges returns recipient changes before envelope changes', () => {
+  const previous = envelope(EnvelopeStatus.Sent, [recipient('rec_1', RecipientStatus.Send)]);
+  const current = envelope(EnvelopeStatus.Completed, [recipient('rec_1', RecipientStatus.Completed)]);
+
+  assert.deepEqual(
+    envelopeChanges(previous, current).map(v => v.type),
+    [WebhookEventType.RecipientCompleted, WebhookEventType.EnvelopeCompleted],
+  );
+});
+
+test('envelopeChanges includes the previous snapshot and the envelope id of recipients', () => {
+  const before = recipient('rec_1', RecipientStatus.Send);
+  const [change] = envelopeChanges(
+    envelope(EnvelopeStatus.Sent, [before]),
+    envelope(EnvelopeStatus.Sent, [recipient('rec_1', RecipientStatus.Failed)]),
+  );
+
+  assert.equal(change.type, WebhookEventType.RecipientFailed);
+  assert.equal(change.previous, before);
+  assert.equal((change.data as Recipient & { envelopeId: string }).envelopeId, 'env_1');
+});
+
+test('envelopeChanges returns a decline separately from the status', () => {
+  const previous = envelope(EnvelopeStatus.Sent, [recipient('rec_1', RecipientStatus.Send)]);
+  const current = envelope(EnvelopeStatus.Sent, [recipient('rec_1', RecipientStatus.Declined)], new Date());
+
+  assert.deepEqual(
+    envelopeChanges(previous, current).map(v => v.type),
+    [WebhookEventType.RecipientDeclined, WebhookEventType.EnvelopeDeclined],
+  );
+  assert.deepEqual(envelopeChanges(current, current), []);
+});
+
+test('envelopeChanges ignores statuses without an event', () => {
+  assert.deepEqual(
+    envelopeChanges(undefined, envelope(EnvelopeStatus.Draft, [recipient('rec_1', RecipientStatus.Created)])),
+    [],
+  );
+});
@@ -0,0 +1,33 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { camelCase, snakeCase } from '../src/utils';
+
+test('snakeCase converts keys recursively, including within arrays', () => {
+  assert.deepEqual(snakeCase({ accountId: 'a', recipients: [{ recipientName: 'b', fields: [{ xCoordinate: 1 }] }] }), {
+    account_id: 'a',
+    recipients: [{ recipient_name: 'b', fields: [{ x_coordinate: 1 }] }],
+  });
+});
+
+test('camelCase converts keys recursively, including within arrays', () => {
+  assert.deepEqual(camelCase({ envelope_id: 'a', recipients: [{ recipient_name: 'b', sent_at: null }] }), {
+    envelopeId: 'a',
+    recipients: [{ recipientName: 'b', sentAt: null }],
+  });
+});
+
+test('key conversion preserves the keys of metadata', () => {
+  const metadata = { external_id: 1, nestedValue: { inner_key: 2 } };
+
+  assert.deepEqual(camelCase({ metadata }), { metadata });
+  assert.deepEqual(snakeCase({ metadata }), { metadata });
+});
+
+test('key conversion leaves values that are not plain objects untouched', () => {
+  const date = new Date();
+  const buffer = Buffer.from('a');
+  const converted = snakeCase({ someDate: date, someBuffer: buffer });
+
+  assert.equal(converted.some_date, date);
+  assert.equal(converted.some_buffer, buffer);
+});
@@ -0,0 +1,199 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { AnnatureSignatureVerificationError, AnnatureValidationError } from '../src/errors';
+import { MockAnnature } from '../src/mock';
+import webhooks, {
+  computeSignature,
+  createWebhookHandler,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookHeaders,
+} from '../src/webhooks';
+import { createEnvelope, receiveWebhooks } from './helpers';
+
+const SIGNATURE = 'whsec_test';
+
+const body = JSON.stringify({
+  id: 'evt_1',
+  type: WebhookEventType.RecipientCompleted,
+  created: '2024-01-31T09:00:00.000Z',
+  data: { id: 'rec_1', envelope_id: 'env_1', completed: '2024-01-31T08:59:00.000Z' },
+});
+
+const sign = (rawBody: string, signature = SIGNATURE, timestamp = Math.floor(Date.now() / 1000)) => ({
+  [SIGNATURE_HEADER]: computeSignature(rawBody, signature, timestamp),
+  [TIMESTAMP_HEADER]: String(timestamp),
+});
+
+test('constructEvent verifies the signature and converts the event', () => {
+  const event = webhooks().constructEvent(body, sign(body), SIGNATURE);
+
+  assert.equal(event.type, WebhookEventType.RecipientCompleted);
+  assert.deepEqual(event.created, new Date('2024-01-31T09:00:00.000Z'));
+  assert.deepEqual(event.data.completed, new Date('2024-01-31T08:59:00.000Z'));
+  assert.equal((event.data as { envelopeId: string }).envelopeId, 'env_1');
+});
+
+test('constructEvent matches headers case-insensitively and accepts a Buffer', () => {
+  const headers = Object.fromEntries(Object.entries(sign(body)).map(([key, value]) => [key.toUpperCase(), [value]]));
+
+  assert.equal(webhooks().constructEvent(Buffer.from(body), headers, SIGNATURE).id, 'evt_1');
+});
+
+test('constructEvent accepts any of several signatures', () => {
+  assert.equal(webhooks().constructEvent(body, sign(body), ['whsec_old', SIGNATURE]).id, 'evt_1');
+});
+
+test('constructEvent rejects a modified body', () => {
+  assert.throws(
+    () => webhooks().constructEvent(body.replace('rec_1', 'rec_2'), sign(body), SIGNATURE),
+    AnnatureSignatureVerificationError,
+  );
+});
+
+test('constructEvent rejects a signature made with another key', () => {
+  assert.throws(
+    () => webhooks().constructEvent(body, sign(body, 'whsec_other'), SIGNATURE),
+    /Webhook signature does not match/,
+  );
+});
+
+test('constructEvent rejects missing headers', () => {
+  const { [TIMESTAMP_HEADER]: _, ...headers }: WebhookHeaders = sign(body);
+
+  assert.throws(() => webhooks().constructEvent(body, {}, SIGNATURE), /Missing x-annature-signature header/);
+  assert.throws(
+    () => webhooks().constructEvent(body, headers, SIGNATURE),
+    /Missing or invalid x-annature-timestamp header/,
+  );
+});
+
+test('constructEvent rejects timestamps outside of the tolerance', () => {
+  const timestamp = Math.floor(Date.now() / 1000) - 301;
+
+  assert.throws(
+    () => webhooks().constructEvent(body, sign(body, SIGNATURE, timestamp), SIGNATURE),
+    /outside of the tolerance/,
+  );
+  assert.equal(
+    webhooks().constructEvent(body, sign(body, SIGNATURE, timestamp), SIGNATURE, { tolerance: 600 }).id,
+    'evt_1',
+  );
+});
+
+test('constructEvent rejects a verified payload without a known event type', () => {
+  for (const type of [undefined, 42, 'envelope_archived']) {
+    const rawBody = JSON.stringify({ id: 'evt_1', type, created: '2024-01-31T09:00:00.000Z', data: {} });
+
+    assert.throws(
+      () => webhooks().constructEvent(rawBody, sign(rawBody), SIGNATURE),
+      (error: unknown) => error instanceof AnnatureValidationError && error.issues[0].path === 'type',
+    );
+  }
+});
+
+test('constructEvent verifies against trusted signatures by default', () => {
+  const events: WebhookEvent[] = [];
+  const signatures = webhooks(event => events.push(event));
+
+  assert.throws(
+    () => signatures.constructEvent(body, sign(body)),
+    /No webhook signatures have been supplied or trusted/,
+  );
+
+  signatures.trust(SIGNATURE);
+  signatures.constructEvent(body, sign(body));
+  signatures.distrust(SIGNATURE);
+
+  assert.deepEqual(
+    events.map(v => v.id),
+    ['evt_1'],
+  );
+  assert.deepEqual(signatures.signatures(), []);
+});
+
+type WebhookHandler = ReturnType<typeof createWebhookHandler>;
+
+/**
+ * Sends an envelope from a mock whose webhooks are delivered to a handler, returning the deliveries once they have completed.
+ * @param create Creates the handler, given the signature of the mock's endpoint.
+ * @param signature The signature the handler verifies deliveries against, instead of the endpoint's.
+ */
+const deliver = async (create: (signature: string) => WebhookHandler, signature?: string) => {
+  const mock = new MockAnnature();
+  const annature = mock.client();
+  let handler: WebhookHandler | undefined;
+  const server = await receiveWebhooks((rawBody, headers) => handler!.handle(rawBody, headers));
+
+  try {
+    const endpoint = await annature.endpoints.create({ url: server.url });
+
+    handler = create(signature ?? endpoint.signature);
+    await createEnvelope(annature, mock);
+    await mock.flush();
+  } finally {
+    await server.close();
+  }
+
+  /** Delivers the event again, as Annature does when a delivery fails. */
+  const redeliver = (type: WebhookEventType) => {
+    const { event } = mock.deliveries.find(v => v.event.type === type)!;
+    const { rawBody, headers } = server.received.find(v => JSON.parse(v.rawBody.toString()).id === event.id)!;
+
+    return handler!.handle(rawBody, headers);
+  };
+
+  return { deliveries: mock.deliveries, redeliver };
+};
+
+test('createWebhookHandler responds with 400 when a delivery cannot be verified', async () => {
+  const handled: WebhookEvent[] = [];
+  const { deliveries } = await deliver(
+    signature =>
+      createWebhookHandler({
+        signature,
+        handlers: { [WebhookEventType.EnvelopeSent]: event => void handled.push(event) },
+      }),
+    'whsec_other',
+  );
+
+  assert.ok(deliveries.length);
+  assert.deepEqual(new Set(deliveries.map(v => v.status)), new Set([400]));
+  assert.deepEqual(handled, []);
+});
+
+test('createWebhookHandler responds with 500 when a handler throws and handles the redelivery', async () => {
+  let calls = 0;
+  const { deliveries, redeliver } = await deliver(signature =>
+    createWebhookHandler({
+      signature,
+      handlers: {
+        [WebhookEventType.EnvelopeSent]: () => {
+          if (!calls++) {
+            throw Error('Database unavailable');
+          }
+        },
+      },
+    }),
+  );
+
+  assert.equal(deliveries.find(v => v.event.type === WebhookEventType.EnvelopeSent)?.status, 500);
+  assert.deepEqual(await redeliver(WebhookEventType.EnvelopeSent), { status: 200, body: { received: true } });
+  assert.equal(calls, 2);
+});
+
+test('createWebhookHandler acknowledges a duplicate delivery without handling it again', async () => {
+  let calls = 0;
+  const { deliveries, redeliver } = await deliver(signature =>
+    createWebhookHandler({ signature, handlers: { [WebhookEventType.EnvelopeSent]: () => void calls++ } }),
+  );
+
+  assert.deepEqual(new Set(deliveries.map(v => v.status)), new Set([200]));
+  assert.deepEqual(await redeliver(WebhookEventType.EnvelopeSent), {
+    status: 200,
+    body: { received: true, duplicate: true },
+  });
+  assert.equal(calls, 1);
+});
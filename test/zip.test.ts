@@ -0,0 +1,87 @@
+import { strict as assert } from 'assert';
+import test from 'node:test';
+import { inflateRawSync } from 'zlib';
+import zip from '../src/zip';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+
+/** Reads the entries of a zip using its central directory. */
+const read = (archive: Buffer) => {
+  const end = archive.length - 22;
+
+  assert.equal(archive.readUInt32LE(end), END_OF_DIRECTORY);
+
+  const count = archive.readUInt16LE(end + 10);
+  const entries = [];
+  let offset = archive.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(offset), CENTRAL_HEADER);
+
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const local = archive.readUInt32LE(offset + 42);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const start = local + 30 + archive.readUInt16LE(local + 26);
+
+    assert.equal(archive.readUInt32LE(local), LOCAL_HEADER);
+    assert.equal(archive.readUInt32LE(local + 14), archive.readUInt32LE(offset + 16));
+
+    entries.push({
+      name: archive.toString('utf8', offset + 46, offset + 46 + nameLength),
+      crc: archive.readUInt32LE(offset + 16),
+      size: archive.readUInt32LE(offset + 24),
+      flags: archive.readUInt16LE(offset + 8),
+      time: archive.readUInt16LE(offset + 12),
+      date: archive.readUInt16LE(offset + 14),
+      data: inflateRawSync(archive.subarray(start, start + compressedSize)),
+    });
+
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+};
+
+test('zip records the CRC-32 of each entry', () => {
+  const [entry] = read(zip([{ name: 'check.txt', data: Buffer.from('123456789') }]));
+
+  // The standard check value of CRC-32.
+  assert.equal(entry.crc, 0xcbf43926);
+  assert.equal(read(zip([{ name: 'empty.txt', data: Buffer.alloc(0) }]))[0].crc, 0);
+});
+
+test('zip compresses each entry and records its offset in the central directory', () => {
+  const entries = [
+    { name: 'documents/contract.pdf', data: Buffer.from('%PDF-1.4 '.repeat(100)) },
+    { name: 'certificate.pdf', data: Buffer.from('%PDF-1.4 certificate') },
+  ];
+  const archive = read(zip(entries));
+
+  assert.deepEqual(
+    archive.map(v => [v.name, v.size, v.data]),
+    entries.map(v => [v.name, v.data.length, v.data]),
+  );
+});
+
+test('zip marks names as UTF-8', () => {
+  const [entry] = read(zip([{ name: 'résumé.pdf', data: Buffer.from('a') }]));
+
+  assert.equal(entry.name, 'résumé.pdf');
+  assert.equal(entry.flags & 0x0800, 0x0800);
+});
+
+test('zip records the modification date in MS-DOS format', () => {
+  const [entry] = read(zip([{ name: 'a.txt', data: Buffer.from('a') }], new Date(2024, 0, 31, 9, 30, 15)));
+
+  assert.equal(entry.date, ((2024 - 1980) << 9) | (1 << 5) | 31);
+  assert.equal(entry.time, (9 << 11) | (30 << 5) | 7);
+});
+
+test('zip creates an empty archive when there are no entries', () => {
+  const archive = zip([]);
+
+  assert.equal(archive.length, 22);
+  assert.deepEqual(read(archive), []);
+});